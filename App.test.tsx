@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+
+const ask = (question: string) => {
+  fireEvent.change(screen.getByPlaceholderText(/Ask about the documents/), { target: { value: question } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send message' }));
+};
+
+describe('App with the mock provider', () => {
+  it('shows suggestions for the active group', async () => {
+    render(<App />);
+    expect(await screen.findByRole('button', { name: 'What does the quickstart page cover?' })).toBeTruthy();
+  });
+
+  it('sends a question and shows the streamed answer', async () => {
+    render(<App />);
+    ask('How do I get an API key?');
+
+    expect(await screen.findByText('This is a mock answer to "How do I get an API key?".')).toBeTruthy();
+    expect((screen.getByPlaceholderText(/Ask about the documents/) as HTMLTextAreaElement).value).toBe('');
+  });
+
+  it('shows the error of a failed request', async () => {
+    render(<App />);
+    ask('Anything [mock:invalid-key]');
+
+    expect(await screen.findByText(/Invalid API Key/)).toBeTruthy();
+  });
+});
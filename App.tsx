@@ -3,11 +3,60 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { ChatMessage, MessageSender, URLGroup } from './types';
-import { generateContentWithUrlContext, getInitialSuggestions } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, ChatSession, GenerationSettings, MessageSender, URLGroup, UrlGroupsImportSummary, UsageSettings } from './types';
+import { CONTINUE_ANSWER_PROMPT, ContextFile, ModelProviderId, ModelResponse } from './services/modelProvider';
+import { MODEL_PROVIDERS, getModelProvider } from './services/modelProviders';
+import {
+  ActiveSessionIds,
+  loadUrlGroups,
+  saveUrlGroups,
+  loadActiveUrlGroupId,
+  saveActiveUrlGroupId,
+  loadChatSessions,
+  saveChatSessions,
+  loadActiveSessionIds,
+  saveActiveSessionIds,
+  loadUrlHealth,
+  saveUrlHealth,
+  loadModelProviderId,
+  saveModelProviderId,
+  loadGenerationSettings,
+  saveGenerationSettings,
+  loadUsageSettings,
+  saveUsageSettings,
+  loadSuggestionCache,
+  saveSuggestionCache,
+  serializeUrlGroupsExport,
+  parseUrlGroupsImport,
+  serializeConversationExport,
+  parseConversationImport,
+  downloadTextFile,
+} from './services/storageService';
+import { UrlHealthMap, recordUrlRetrievals, getFailedUrls, getDeadUrls } from './services/urlHealthService';
+import { slugifyGroupName, createUniqueGroupId, createCopyName, moveGroup } from './services/urlGroupUtils';
+import { SuggestionCache, getCachedSuggestions, hashUrlSet } from './services/suggestionService';
+import { Comparison, MIN_COMPARE_TARGETS, buildCompareTargets } from './services/comparisonService';
+import { resolveQueryScope, stripMentionMarkers } from './services/urlScopeService';
+import { normalizeUrl } from './services/urlImportService';
+import { createFileSource, findOrphanedFileIds, loadContextFiles, toFileReferences, validateFiles } from './services/localFileService';
+import { deleteFileContent, saveFileContent } from './services/fileStore';
+import { deleteOrphanedPages, loadCacheDates, loadPages, retrievePassages } from './services/pageCacheService';
+import { describeBudgetStatus, sumUsage, summarizeUsage } from './services/usageService';
+import { applySessionMessages, createSession, getGroupSessions, hasQuestions } from './services/chatSessionService';
+import { EmptyResponseError, ModelError, SafetyBlockedError, TimeoutError, createRequestTimeout, toModelError, withRetry } from './services/modelErrors';
 import KnowledgeBaseManager from './components/KnowledgeBaseManager';
 import ChatInterface from './components/ChatInterface';
+import SettingsPanel from './components/SettingsPanel';
+import SessionHistory from './components/SessionHistory';
+import SearchPalette from './components/SearchPalette';
+import { GEMINI_MODEL_OPTIONS } from './services/generationSettings';
+import {
+  ConversationExportFormat,
+  getConversationFileName,
+  serializeConversationHtml,
+  serializeConversationMarkdown,
+} from './services/conversationExportService';
 
 const GEMINI_DOCS_URLS = [
   "https://ai.google.dev/gemini-api/docs",
@@ -44,94 +93,237 @@ const INITIAL_URL_GROUPS: URLGroup[] = [
   { id: 'model-capabilities', name: 'Model Capabilities', urls: MODEL_CAPABILITIES_URLS },
 ];
 
+// Groups larger than the urlContext per-request limit are queried in relevance-ranked batches.
+const MAX_URLS = 100;
+// An answer is abandoned when no chunk arrives for this long; long answers that keep streaming
+// are not cut off.
+const REQUEST_IDLE_TIMEOUT_MS = 60000;
+const REQUEST_MAX_ATTEMPTS = 3;
+
 const App: React.FC = () => {
-  const [urlGroups, setUrlGroups] = useState<URLGroup[]>(INITIAL_URL_GROUPS);
-  const [activeUrlGroupId, setActiveUrlGroupId] = useState<string>(INITIAL_URL_GROUPS[0].id);
+  const [urlGroups, setUrlGroups] = useState<URLGroup[]>(() => loadUrlGroups() || INITIAL_URL_GROUPS);
+  const [activeUrlGroupId, setActiveUrlGroupId] = useState<string>(() => {
+    const storedId = loadActiveUrlGroupId();
+    const groups = loadUrlGroups() || INITIAL_URL_GROUPS;
+    return storedId && groups.some(group => group.id === storedId) ? storedId : groups[0]?.id || '';
+  });
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>(() => loadChatSessions());
+  const [activeSessionIds, setActiveSessionIds] = useState<ActiveSessionIds>(() => loadActiveSessionIds());
+  const [urlHealth, setUrlHealth] = useState<UrlHealthMap>(() => loadUrlHealth());
+  const [modelProviderId, setModelProviderId] = useState<ModelProviderId>(() => loadModelProviderId());
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(() => loadGenerationSettings());
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadUsageSettings());
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Read by the suggestions fetch so that tweaking settings does not trigger a new suggestions request.
+  const generationSettingsRef = useRef(generationSettings);
+  generationSettingsRef.current = generationSettings;
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingSuggestions, setIsFetchingSuggestions] = useState(false);
-  const [initialQuerySuggestions, setInitialQuerySuggestions] = useState<string[]>([]);
+  const [suggestionCache, setSuggestionCache] = useState<SuggestionCache>(() => loadSuggestionCache());
+  // Follow-up suggestions per session, for the latest answer only.
+  const [followUpSuggestions, setFollowUpSuggestions] = useState<Record<string, string[]>>({});
+  // Answers from compare mode, shown side by side until one is kept or the comparison is dismissed.
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  // URLs unchecked in the knowledge base, per group. Questions without @-mentions skip them.
+  const [excludedUrlsByGroup, setExcludedUrlsByGroup] = useState<Record<string, string[]>>({});
+  // When each URL was last fetched into the page cache, shown while the local retrieval mode is on.
+  const [pageCacheDates, setPageCacheDates] = useState<Record<string, Date>>({});
+  const [isRefreshingPageCache, setIsRefreshingPageCache] = useState(false);
+  const streamAbortControllerRef = useRef<AbortController | null>(null);
   
-  const MAX_URLS = 20;
-
   const activeGroup = urlGroups.find(group => group.id === activeUrlGroupId);
   const currentUrlsForChat = activeGroup ? activeGroup.urls : [];
+  const excludedUrls = excludedUrlsByGroup[activeUrlGroupId] || [];
+  const scopedUrlsForChat = currentUrlsForChat.filter(url => !excludedUrls.includes(url));
+  const groupSessions = getGroupSessions(chatSessions, activeUrlGroupId);
+  const activeSession = groupSessions.find(session => session.id === activeSessionIds[activeUrlGroupId]) || groupSessions[0];
+  const chatMessages = activeSession?.messages || [];
+  const urlSetHash = hashUrlSet(currentUrlsForChat);
+  const querySuggestions = activeSession && hasQuestions(activeSession)
+    ? followUpSuggestions[activeSession.id] || []
+    : getCachedSuggestions(suggestionCache, activeUrlGroupId, currentUrlsForChat) || [];
+  const modelProvider = getModelProvider(modelProviderId);
+  const isLocalRetrieval = generationSettings.retrievalMode === 'local-cache';
+  const sessionUsage = summarizeUsage(chatMessages, usageSettings.prices);
+  const groupUsage = summarizeUsage(groupSessions.flatMap(session => session.messages), usageSettings.prices);
+  const budgetWarning = describeBudgetStatus(groupUsage, usageSettings.groupTokenBudget);
+  const compareTargets = buildCompareTargets(urlGroups, activeUrlGroupId, modelProvider.id === 'gemini' ? GEMINI_MODEL_OPTIONS : []);
+  const deadUrls = getDeadUrls(currentUrlsForChat, urlHealth);
 
-   useEffect(() => {
-    const apiKey = process.env.API_KEY;
-    const currentActiveGroup = urlGroups.find(group => group.id === activeUrlGroupId);
-    const welcomeMessageText = !apiKey 
-        ? 'ERROR: Gemini API Key (process.env.API_KEY) is not configured. Please set this environment variable to use the application.'
-        : `Welcome to Documentation Browser! You're currently browsing content from: "${currentActiveGroup?.name || 'None'}". Just ask me questions, or try one of the suggestions below to get started`;
-    
-    setChatMessages([{
-      id: `system-welcome-${activeUrlGroupId}-${Date.now()}`,
-      text: welcomeMessageText,
-      sender: MessageSender.SYSTEM,
-      timestamp: new Date(),
-    }]);
-  }, [activeUrlGroupId, urlGroups]); 
+  // Read by setChatMessages so that callbacks depending on it survive session switches.
+  const activeSessionIdRef = useRef(activeSession?.id);
+  activeSessionIdRef.current = activeSession?.id;
+
+  // Updates the messages of a specific session, so responses that finish after the user
+  // switched groups or sessions still land in the conversation they belong to.
+  const updateSessionMessages = useCallback((sessionId: string, updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    setChatSessions(prevSessions => prevSessions.map(session =>
+      session.id === sessionId ? applySessionMessages(session, updater(session.messages)) : session
+    ));
+  }, []);
+
+  const setChatMessages = useCallback((updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    if (activeSessionIdRef.current) updateSessionMessages(activeSessionIdRef.current, updater);
+  }, [updateSessionMessages]);
+
+  // Sessions nobody asked anything in are dropped when the user moves to another one, so each
+  // group keeps at most one blank session.
+  const openSession = (session: ChatSession) => {
+    setChatSessions(prevSessions => prevSessions.filter(other =>
+      other.id === session.id || other.groupId !== session.groupId || hasQuestions(other)
+    ));
+    setActiveSessionIds(prevIds => ({ ...prevIds, [session.groupId]: session.id }));
+  };
+
+  const addSession = (session: ChatSession) => {
+    setChatSessions(prevSessions => [...prevSessions, session]);
+    openSession(session);
+  };
+
+  const createWelcomeMessage = (): ChatMessage => ({
+    id: `system-welcome-${activeUrlGroupId}-${Date.now()}`,
+    text: !modelProvider.isConfigured()
+      ? `ERROR: ${modelProvider.missingConfigurationMessage}`
+      : `Welcome to Documentation Browser! You're currently browsing content from: "${activeGroup?.name || 'None'}". Just ask me questions, or try one of the suggestions below to get started`,
+    sender: MessageSender.SYSTEM,
+    timestamp: new Date(),
+  });
 
+  useEffect(() => { saveUrlGroups(urlGroups); }, [urlGroups]);
+  useEffect(() => { saveActiveUrlGroupId(activeUrlGroupId); }, [activeUrlGroupId]);
+  useEffect(() => { saveChatSessions(chatSessions); }, [chatSessions]);
+  useEffect(() => { saveActiveSessionIds(activeSessionIds); }, [activeSessionIds]);
+  useEffect(() => { saveUrlHealth(urlHealth); }, [urlHealth]);
+  useEffect(() => { saveModelProviderId(modelProviderId); }, [modelProviderId]);
+  useEffect(() => { saveGenerationSettings(generationSettings); }, [generationSettings]);
+  useEffect(() => { saveUsageSettings(usageSettings); }, [usageSettings]);
+  useEffect(() => { saveSuggestionCache(suggestionCache); }, [suggestionCache]);
 
-  const fetchAndSetInitialSuggestions = useCallback(async (currentUrls: string[]) => {
-    if (currentUrls.length === 0) {
-      setInitialQuerySuggestions([]);
+  // Every group has a session to talk in. A session emptied by deleting its turns gets the
+  // welcome message back.
+  useEffect(() => {
+    if (!activeUrlGroupId || chatMessages.length > 0) return;
+    if (activeSession) {
+      updateSessionMessages(activeSession.id, () => [createWelcomeMessage()]);
       return;
     }
-      
-    setIsFetchingSuggestions(true);
-    setInitialQuerySuggestions([]); 
+    const session = createSession(activeUrlGroupId, [createWelcomeMessage()]);
+    // Guarded in the updater so a repeated effect run cannot add a second session.
+    setChatSessions(prevSessions => prevSessions.some(other => other.groupId === session.groupId) ? prevSessions : [...prevSessions, session]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeUrlGroupId, activeSession?.id, chatMessages.length]);
 
-    try {
-      const response = await getInitialSuggestions(currentUrls); 
-      let suggestionsArray: string[] = [];
-      if (response.text) {
-        try {
-          let jsonStr = response.text.trim();
-          const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s; 
-          const match = jsonStr.match(fenceRegex);
-          if (match && match[2]) {
-            jsonStr = match[2].trim();
-          }
-          const parsed = JSON.parse(jsonStr);
-          if (parsed && Array.isArray(parsed.suggestions)) {
-            suggestionsArray = parsed.suggestions.filter((s: unknown) => typeof s === 'string');
-          } else {
-            console.warn("Parsed suggestions response, but 'suggestions' array not found or invalid:", parsed);
-             setChatMessages(prev => [...prev, { id: `sys-err-suggestion-fmt-${Date.now()}`, text: "Received suggestions in an unexpected format.", sender: MessageSender.SYSTEM, timestamp: new Date() }]);
-          }
-        } catch (parseError) {
-          console.error("Failed to parse suggestions JSON:", parseError, "Raw text:", response.text);
-          setChatMessages(prev => [...prev, { id: `sys-err-suggestion-parse-${Date.now()}`, text: "Error parsing suggestions from AI.", sender: MessageSender.SYSTEM, timestamp: new Date() }]);
-        }
+  const handleNewSession = () => {
+    if (activeSession && !hasQuestions(activeSession)) return;
+    addSession(createSession(activeUrlGroupId, [createWelcomeMessage()]));
+  };
+
+  // Ctrl/Cmd+K opens the search palette from anywhere in the app.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
       }
-      setInitialQuerySuggestions(suggestionsArray.slice(0, 4)); 
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The highlight fades after a moment; ChatInterface scrolls the message into view.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const handleJumpToMessage = (sessionId: string, messageId: string) => {
+    const session = chatSessions.find(candidate => candidate.id === sessionId);
+    if (!session || !urlGroups.some(group => group.id === session.groupId)) return;
+    setActiveUrlGroupId(session.groupId);
+    openSession(session);
+    setHighlightedMessageId(messageId);
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    setChatSessions(prevSessions => prevSessions.map(session => session.id === id ? { ...session, title } : session));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    setChatSessions(prevSessions => prevSessions.filter(session => session.id !== id));
+  };
+
+
+  const fetchGroupSuggestions = useCallback(async (groupId: string, urls: string[]) => {
+    setIsFetchingSuggestions(true);
+    try {
+      const suggestions = await withRetry(() => modelProvider.getSuggestions(urls, generationSettingsRef.current));
+      setSuggestionCache(prevCache => ({
+        ...prevCache,
+        [groupId]: { urlSetHash: hashUrlSet(urls), suggestions, fetchedAt: new Date() },
+      }));
     } catch (e: any) {
       const errorMessage = e.message || 'Failed to fetch initial suggestions.';
       setChatMessages(prev => [...prev, { id: `sys-err-suggestion-fetch-${Date.now()}`, text: `Error fetching suggestions: ${errorMessage}`, sender: MessageSender.SYSTEM, timestamp: new Date() }]);
     } finally {
       setIsFetchingSuggestions(false);
     }
-  }, []); 
+  }, [setChatMessages, modelProvider]);
 
-  useEffect(() => {
-    if (currentUrlsForChat.length > 0 && process.env.API_KEY) { 
-        fetchAndSetInitialSuggestions(currentUrlsForChat);
-    } else {
-        setInitialQuerySuggestions([]); 
+  // Follow-ups are a nicety, so failures are only logged.
+  const fetchFollowUpSuggestions = async (sessionId: string, urls: string[], messages: ChatMessage[]) => {
+    setIsFetchingSuggestions(true);
+    try {
+      const suggestions = await withRetry(() => modelProvider.getSuggestions(urls, generationSettingsRef.current, messages));
+      setFollowUpSuggestions(prev => ({ ...prev, [sessionId]: suggestions }));
+    } catch (e) {
+      console.warn("Failed to fetch follow-up suggestions:", e);
+    } finally {
+      setIsFetchingSuggestions(false);
     }
+  };
+
+  // Keyed on the URL set rather than the array identity, so only real URL changes (without a
+  // cached entry) cost a request.
+  useEffect(() => {
+    if (currentUrlsForChat.length === 0 || !modelProvider.isConfigured()) return;
+    if (getCachedSuggestions(suggestionCache, activeUrlGroupId, currentUrlsForChat)) return;
+    fetchGroupSuggestions(activeUrlGroupId, currentUrlsForChat);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentUrlsForChat, fetchAndSetInitialSuggestions]); 
+  }, [activeUrlGroupId, urlSetHash, fetchGroupSuggestions]);
 
+  useEffect(() => {
+    if (!isLocalRetrieval || currentUrlsForChat.length === 0) return;
+    let isCurrent = true;
+    loadCacheDates(currentUrlsForChat).then(dates => {
+      if (isCurrent) setPageCacheDates(prevDates => ({ ...prevDates, ...dates }));
+    });
+    return () => { isCurrent = false; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLocalRetrieval, urlSetHash]);
 
-  const handleAddUrl = (url: string) => {
+  const handleRefreshSuggestions = () => {
+    if (isFetchingSuggestions || currentUrlsForChat.length === 0 || !activeSession) return;
+    if (hasQuestions(activeSession)) {
+      fetchFollowUpSuggestions(activeSession.id, currentUrlsForChat, chatMessages);
+    } else {
+      fetchGroupSuggestions(activeUrlGroupId, currentUrlsForChat);
+    }
+  };
+
+  const handleAddUrls = (urls: string[]) => {
     setUrlGroups(prevGroups => 
       prevGroups.map(group => {
         if (group.id === activeUrlGroupId) {
-          if (group.urls.length < MAX_URLS && !group.urls.includes(url)) {
-            return { ...group, urls: [...group.urls, url] };
+          const newUrls = urls.filter((url, index) => !group.urls.includes(url) && urls.indexOf(url) === index);
+          const capacity = Math.max(0, MAX_URLS - group.urls.length);
+          if (newUrls.length > 0 && capacity > 0) {
+            return { ...group, urls: [...group.urls, ...newUrls.slice(0, capacity)] };
           }
         }
         return group;
@@ -139,25 +331,288 @@ const App: React.FC = () => {
     );
   };
 
+  const handleAddUrl = (url: string) => {
+    handleAddUrls([url]);
+  };
+
+  // Forgets the scope exclusions of URLs removed from the active group, so a URL added back later
+  // starts out checked.
+  const pruneExcludedUrls = (removedUrls: string[]) => {
+    setExcludedUrlsByGroup(prev => {
+      const excluded = prev[activeUrlGroupId];
+      if (!excluded) return prev;
+      return { ...prev, [activeUrlGroupId]: excluded.filter(url => !removedUrls.includes(url)) };
+    });
+  };
+
   const handleRemoveUrl = (urlToRemove: string) => {
-    setUrlGroups(prevGroups =>
-      prevGroups.map(group => {
-        if (group.id === activeUrlGroupId) {
-          return { ...group, urls: group.urls.filter(url => url !== urlToRemove) };
-        }
-        return group;
-      })
+    const remainingGroups = urlGroups.map(group =>
+      group.id === activeUrlGroupId ? { ...group, urls: group.urls.filter(url => url !== urlToRemove) } : group
     );
+    setUrlGroups(remainingGroups);
+    deleteOrphanedPages([urlToRemove], remainingGroups);
+    pruneExcludedUrls([urlToRemove]);
   };
 
-  const handleSendMessage = async (query: string) => {
-    if (!query.trim() || isLoading || isFetchingSuggestions) return;
+  // Fetches every URL of the active group again, replacing the cached copies that could be fetched.
+  const handleRefreshPageCache = async () => {
+    if (isRefreshingPageCache || currentUrlsForChat.length === 0) return;
+    setIsRefreshingPageCache(true);
+    try {
+      const { pages, urlContextMetadata } = await loadPages(currentUrlsForChat, true);
+      setPageCacheDates(prevDates => ({ ...prevDates, ...Object.fromEntries(pages.map(page => [page.url, page.fetchedAt])) }));
+      setUrlHealth(prevHealth => recordUrlRetrievals(prevHealth, urlContextMetadata));
+    } finally {
+      setIsRefreshingPageCache(false);
+    }
+  };
+
+  // Stores each accepted file's content in IndexedDB before listing it in the active group.
+  // Returns a message for every file that was rejected or could not be stored.
+  const handleAddFiles = async (files: File[]): Promise<string[]> => {
+    const { accepted, errors } = validateFiles(files, activeGroup?.files || []);
+    const added = [];
+    for (const file of accepted) {
+      const source = createFileSource(file);
+      try {
+        await saveFileContent(source.id, file);
+        added.push(source);
+      } catch (e) {
+        console.error(`Failed to store ${file.name}:`, e);
+        errors.push(`${file.name}: could not be stored in the browser.`);
+      }
+    }
+    if (added.length > 0) {
+      setUrlGroups(prevGroups => prevGroups.map(group =>
+        group.id === activeUrlGroupId ? { ...group, files: [...(group.files || []), ...added] } : group
+      ));
+    }
+    return errors;
+  };
+
+  const handleRemoveFile = (fileId: string) => {
+    const removed = (activeGroup?.files || []).filter(file => file.id === fileId);
+    const remainingGroups = urlGroups.map(group =>
+      group.id === activeUrlGroupId ? { ...group, files: (group.files || []).filter(file => file.id !== fileId) } : group
+    );
+    setUrlGroups(remainingGroups);
+    findOrphanedFileIds(removed, remainingGroups).forEach(deleteFileContent);
+  };
+
+  const handleExportGroups = () => {
+    const dateStamp = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`url-groups-${dateStamp}.json`, serializeUrlGroupsExport(urlGroups), 'application/json');
+  };
+
+  // Imported groups are appended. A group whose id is already taken by a different URL set
+  // gets a fresh id so nothing local is overwritten; exact duplicates are skipped.
+  const handleImportGroups = (json: string): UrlGroupsImportSummary => {
+    const { groups: importedGroups, invalidUrls } = parseUrlGroupsImport(json);
+    const takenIds = urlGroups.map(group => group.id);
+    const groupsToAdd: URLGroup[] = [];
+    let truncatedUrls = 0;
+
+    for (const imported of importedGroups) {
+      const existing = urlGroups.find(group => group.id === imported.id);
+      if (existing && existing.urls.map(url => normalizeUrl(url) || url).join('\n') === imported.urls.join('\n')) continue;
+
+      const id = createUniqueGroupId(imported.id, takenIds);
+      takenIds.push(id);
+      truncatedUrls += Math.max(0, imported.urls.length - MAX_URLS);
+      groupsToAdd.push({ id, name: imported.name, urls: imported.urls.slice(0, MAX_URLS) });
+    }
+
+    if (groupsToAdd.length > 0) {
+      setUrlGroups(prevGroups => [...prevGroups, ...groupsToAdd]);
+    }
+    return { added: groupsToAdd.length, invalidUrls, truncatedUrls, maxUrls: MAX_URLS };
+  };
+
+  const handleExportConversation = (format: ConversationExportFormat) => {
+    if (!activeGroup) return;
+    const fileName = getConversationFileName(activeGroup, format);
+    if (format === 'markdown') {
+      downloadTextFile(fileName, serializeConversationMarkdown(activeGroup, chatMessages), 'text/markdown');
+    } else if (format === 'html') {
+      downloadTextFile(fileName, serializeConversationHtml(activeGroup, chatMessages), 'text/html');
+    } else {
+      downloadTextFile(fileName, serializeConversationExport(activeGroup, chatMessages), 'application/json');
+    }
+  };
 
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
+  // Restores as a new session of the exported group when it still has the same URLs; otherwise
+  // the conversation gets a new group so that the URLs it was answered from come along.
+  const handleImportConversation = (json: string): string => {
+    const imported = parseConversationImport(json);
+    const existing = urlGroups.find(group => group.id === imported.group.id);
+    const canReuse = !!existing && existing.urls.join('\n') === imported.group.urls.join('\n');
+
+    let targetGroup: URLGroup;
+    if (canReuse && existing) {
+      targetGroup = existing;
+    } else {
+      targetGroup = {
+        id: createUniqueGroupId(imported.group.id, urlGroups.map(group => group.id)),
+        name: existing ? createCopyName(imported.group.name, urlGroups) : imported.group.name,
+        urls: imported.group.urls.slice(0, MAX_URLS),
+      };
+      setUrlGroups(prevGroups => [...prevGroups, targetGroup]);
+    }
+    addSession(applySessionMessages(createSession(targetGroup.id), imported.messages));
+    setActiveUrlGroupId(targetGroup.id);
+    return `Restored ${imported.messages.length} message${imported.messages.length === 1 ? '' : 's'} into "${targetGroup.name}".`;
+  };
+
+  const handleCreateGroup = (name: string) => {
+    const id = createUniqueGroupId(slugifyGroupName(name), urlGroups.map(group => group.id));
+    setUrlGroups(prevGroups => [...prevGroups, { id, name, urls: [] }]);
+    setActiveUrlGroupId(id);
+  };
+
+  const handleRenameGroup = (id: string, name: string) => {
+    setUrlGroups(prevGroups => prevGroups.map(group => group.id === id ? { ...group, name } : group));
+  };
+
+  const handleDuplicateGroup = (id: string) => {
+    const source = urlGroups.find(group => group.id === id);
+    if (!source) return;
+    const name = createCopyName(source.name, urlGroups);
+    const copyId = createUniqueGroupId(slugifyGroupName(name), urlGroups.map(group => group.id));
+    const sourceIndex = urlGroups.indexOf(source);
+    setUrlGroups(prevGroups => [
+      ...prevGroups.slice(0, sourceIndex + 1),
+      { id: copyId, name, urls: [...source.urls], files: source.files && [...source.files] },
+      ...prevGroups.slice(sourceIndex + 1),
+    ]);
+    setActiveUrlGroupId(copyId);
+  };
+
+  // Deleting the active group selects its successor, or its predecessor when it was last.
+  const handleDeleteGroup = (id: string) => {
+    if (urlGroups.length <= 1) return;
+    const index = urlGroups.findIndex(group => group.id === id);
+    if (index === -1) return;
+    const remaining = urlGroups.filter(group => group.id !== id);
+    setUrlGroups(remaining);
+    findOrphanedFileIds(urlGroups[index].files || [], remaining).forEach(deleteFileContent);
+    deleteOrphanedPages(urlGroups[index].urls, remaining);
+    setChatSessions(prevSessions => prevSessions.filter(session => session.groupId !== id));
+    setSuggestionCache(prevCache => {
+      const { [id]: _removed, ...rest } = prevCache;
+      return rest;
+    });
+    setActiveSessionIds(prevIds => {
+      const { [id]: _removed, ...rest } = prevIds;
+      return rest;
+    });
+    if (id === activeUrlGroupId) {
+      setActiveUrlGroupId(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  };
+
+  const handleMoveGroup = (id: string, offset: number) => {
+    setUrlGroups(prevGroups => moveGroup(prevGroups, id, offset));
+  };
+
+  // Runs one answer request with retries and an idle timeout. Failures are only retried before the
+  // first chunk: once text has been shown, a retry would restart the answer under the user's eyes.
+  // In the local retrieval mode the provider gets no URLs: the passages of the cached pages that
+  // best match `retrievalQuery` are sent as files instead.
+  const requestAnswer = async (
+    query: string,
+    urls: string[],
+    files: ContextFile[],
+    history: ChatMessage[],
+    settings: GenerationSettings,
+    abortController: AbortController,
+    callbacks: { onChunk: (accumulatedText: string) => void; onRetry: (notice: string) => void },
+    retrievalQuery: string = query
+  ): Promise<{ response: ModelResponse; timedOut: boolean }> => {
+    let receivedChunk = false;
+    let timedOut = false;
+    const retrieved = settings.retrievalMode === 'local-cache' && urls.length > 0
+      ? await retrievePassages(retrievalQuery, urls, abortController.signal)
+      : null;
+    if (retrieved) {
+      setPageCacheDates(prevDates => ({ ...prevDates, ...Object.fromEntries(retrieved.pages.map(page => [page.url, page.fetchedAt])) }));
+    }
+    const response = await withRetry(async () => {
+      const timeout = createRequestTimeout(REQUEST_IDLE_TIMEOUT_MS, abortController.signal);
+      try {
+        const attemptResponse = await modelProvider.generateAnswer(
+          query,
+          retrieved ? [] : urls,
+          history,
+          (accumulatedText) => {
+            receivedChunk = true;
+            timeout.touch();
+            callbacks.onChunk(accumulatedText);
+          },
+          settings,
+          timeout.signal,
+          retrieved ? [...files, ...retrieved.files] : files
+        );
+        timedOut = timeout.didTimeOut();
+        if (timedOut && !attemptResponse.text) throw new TimeoutError();
+        if (!attemptResponse.text && !abortController.signal.aborted) throw new EmptyResponseError();
+        return attemptResponse;
+      } finally {
+        timeout.clear();
+      }
+    }, {
+      maxAttempts: REQUEST_MAX_ATTEMPTS,
+      abortSignal: abortController.signal,
+      shouldRetry: () => !receivedChunk,
+      onRetry: (attempt, delayMs) => callbacks.onRetry(
+        `Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${REQUEST_MAX_ATTEMPTS})...`
+      ),
+    });
+    return { response: retrieved ? { ...response, urlContextMetadata: retrieved.urlContextMetadata } : response, timedOut };
+  };
+
+  // Text shown for a finished request, noting when it was cut short by the user or a timeout.
+  const formatAnswerText = (text: string, timedOut: boolean, wasStopped: boolean): string => {
+    if (!text) return "Generation stopped before any text was received.";
+    if (timedOut) return `${text}\n\n_(Response timed out.)_`;
+    return wasStopped ? `${text}\n\n_(Generation stopped.)_` : text;
+  };
+
+  const toAnswerMessage = (placeholder: ChatMessage, response: ModelResponse, timedOut: boolean, wasStopped: boolean): ChatMessage => ({
+    ...placeholder,
+    text: formatAnswerText(response.text, timedOut, wasStopped),
+    isLoading: false,
+    isStreaming: false,
+    urlContext: response.urlContextMetadata,
+    citations: response.citations?.length ? response.citations : undefined,
+    finishReason: response.finishReason,
+    blockReason: response.blockReason,
+    safetyRatings: response.safetyRatings,
+    usage: response.usage,
+  });
+
+  const toErrorMessage = (id: string, error: ModelError): ChatMessage => ({
+    id,
+    text: error.message,
+    sender: MessageSender.SYSTEM,
+    timestamp: new Date(),
+    error: { kind: error.kind, retryable: error.retryable },
+    ...(error instanceof SafetyBlockedError ? error.details : {}),
+  });
+
+  // `options.baseMessages` re-runs the conversation from an earlier point: everything after it is
+  // discarded and it becomes the history for the new question. `options.model` overrides the
+  // configured model for this request only.
+  const handleSendMessage = async (
+    query: string,
+    urlsForQuery: string[] = scopedUrlsForChat,
+    options: { baseMessages?: ChatMessage[]; model?: string } = {}
+  ) => {
+    if (!query.trim() || isLoading || !activeSession) return;
+
+    if (!modelProvider.isConfigured()) {
        setChatMessages(prev => [...prev, {
         id: `error-apikey-${Date.now()}`,
-        text: 'ERROR: API Key (process.env.API_KEY) is not configured. Please set it up to send messages.',
+        text: `ERROR: ${modelProvider.missingConfigurationMessage}`,
         sender: MessageSender.SYSTEM,
         timestamp: new Date(),
       }]);
@@ -165,13 +620,13 @@ const App: React.FC = () => {
     }
     
     setIsLoading(true);
-    setInitialQuerySuggestions([]); 
 
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       text: query,
       sender: MessageSender.USER,
       timestamp: new Date(),
+      urlScope: urlsForQuery,
     };
     
     const modelPlaceholderMessage: ChatMessage = {
@@ -182,34 +637,270 @@ const App: React.FC = () => {
       isLoading: true,
     };
 
-    setChatMessages(prevMessages => [...prevMessages, userMessage, modelPlaceholderMessage]);
+    // Snapshot of the conversation before this question, used as multi-turn context.
+    const history = options.baseMessages || chatMessages;
+    const sessionId = activeSession.id;
+    setFollowUpSuggestions(prev => {
+      const { [sessionId]: _stale, ...rest } = prev;
+      return rest;
+    });
+    updateSessionMessages(sessionId, prevMessages => [...(options.baseMessages || prevMessages), userMessage, modelPlaceholderMessage]);
+
+    const abortController = new AbortController();
+    streamAbortControllerRef.current = abortController;
+    const replacePlaceholder = (update: (msg: ChatMessage) => ChatMessage) => {
+      updateSessionMessages(sessionId, prevMessages =>
+        prevMessages.map(msg => msg.id === modelPlaceholderMessage.id ? update(msg) : msg)
+      );
+    };
 
     try {
-      const response = await generateContentWithUrlContext(query, currentUrlsForChat);
-      setChatMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === modelPlaceholderMessage.id
-            ? { ...modelPlaceholderMessage, text: response.text || "I received an empty response.", isLoading: false, urlContext: response.urlContextMetadata }
-            : msg
-        )
+      const contextFiles = await loadContextFiles(activeGroup?.files);
+      const { response, timedOut } = await requestAnswer(
+        query,
+        urlsForQuery,
+        contextFiles,
+        history,
+        options.model ? { ...generationSettings, model: options.model } : generationSettings,
+        abortController,
+        {
+          onChunk: (accumulatedText) => replacePlaceholder(msg => ({ ...msg, text: accumulatedText, isLoading: false, isStreaming: true })),
+          onRetry: (notice) => replacePlaceholder(msg => ({ ...msg, text: notice })),
+        }
       );
-    } catch (e: any) {
-      const errorMessage = e.message || 'Failed to get response from AI.';
-      setChatMessages(prevMessages =>
-        prevMessages.map(msg =>
-          msg.id === modelPlaceholderMessage.id
-            ? { ...modelPlaceholderMessage, text: `Error: ${errorMessage}`, sender: MessageSender.SYSTEM, isLoading: false } 
-            : msg
-        )
+      setUrlHealth(prevHealth => recordUrlRetrievals(prevHealth, response.urlContextMetadata));
+      const wasStopped = abortController.signal.aborted;
+      const finalMessage = { ...toAnswerMessage(modelPlaceholderMessage, response, timedOut, wasStopped), fileSources: toFileReferences(contextFiles) };
+      replacePlaceholder(() => finalMessage);
+      if (response.text && !wasStopped) {
+        fetchFollowUpSuggestions(sessionId, urlsForQuery, [...history, userMessage, finalMessage]);
+      }
+    } catch (e) {
+      replacePlaceholder(() => toErrorMessage(modelPlaceholderMessage.id, toModelError(e, 'Failed to get response from AI')));
+    } finally {
+      streamAbortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Resumes an answer that hit the output token limit. The continuation is streamed onto the end
+  // of the same message; if it fails, the answer is left as it was and an error follows it.
+  const handleContinueMessage = async (modelMessageId: string) => {
+    const index = chatMessages.findIndex(msg => msg.id === modelMessageId);
+    const original = chatMessages[index];
+    const question = chatMessages[findTurnQuestionIndex(modelMessageId)];
+    if (!original || isLoading || !activeSession || !modelProvider.isConfigured()) return;
+
+    setIsLoading(true);
+    const sessionId = activeSession.id;
+    const abortController = new AbortController();
+    streamAbortControllerRef.current = abortController;
+    const updateOriginal = (update: Partial<ChatMessage>) => {
+      updateSessionMessages(sessionId, prevMessages =>
+        prevMessages.map(msg => msg.id === modelMessageId ? { ...msg, ...update } : msg)
       );
+    };
+
+    try {
+      const { response, timedOut } = await requestAnswer(
+        CONTINUE_ANSWER_PROMPT,
+        question?.urlScope || currentUrlsForChat,
+        await loadContextFiles(activeGroup?.files),
+        chatMessages.slice(0, index + 1),
+        generationSettings,
+        abortController,
+        {
+          onChunk: (accumulatedText) => updateOriginal({ text: original.text + accumulatedText, isStreaming: true }),
+          onRetry: (notice) => updateOriginal({ text: `${original.text}\n\n_${notice}_` }),
+        },
+        question?.text
+      );
+      setUrlHealth(prevHealth => recordUrlRetrievals(prevHealth, response.urlContextMetadata));
+      const wasStopped = abortController.signal.aborted;
+      const citations = [...(original.citations || []), ...(response.citations || [])];
+      const knownUrls = new Set((original.urlContext || []).map(item => item.retrievedUrl));
+      const urlContext = [
+        ...(original.urlContext || []),
+        ...(response.urlContextMetadata || []).filter(item => !knownUrls.has(item.retrievedUrl)),
+      ];
+      updateOriginal({
+        text: response.text ? original.text + formatAnswerText(response.text, timedOut, wasStopped) : original.text,
+        isStreaming: false,
+        urlContext: urlContext.length ? urlContext : undefined,
+        citations: citations.length ? citations : undefined,
+        finishReason: response.text ? response.finishReason : original.finishReason,
+        safetyRatings: response.safetyRatings,
+        usage: sumUsage([original.usage, response.usage]),
+      });
+    } catch (e) {
+      const errorMessage = toErrorMessage(`continue-error-${Date.now()}`, toModelError(e, 'Failed to continue the answer'));
+      updateSessionMessages(sessionId, prevMessages => {
+        const restored = prevMessages.map(msg => msg.id === modelMessageId ? { ...original, isStreaming: false } : msg);
+        const position = restored.findIndex(msg => msg.id === modelMessageId) + 1;
+        return [...restored.slice(0, position), errorMessage, ...restored.slice(position)];
+      });
     } finally {
+      streamAbortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Sends one question to several groups or models in parallel. The answers stay in the comparison
+  // until one is kept; the session history is shared context for all of them.
+  const handleCompare = async (rawQuery: string, targetIds: string[]) => {
+    const query = stripMentionMarkers(rawQuery);
+    const targets = compareTargets.filter(target => targetIds.includes(target.id));
+    if (!query.trim() || isLoading || !activeSession || targets.length < MIN_COMPARE_TARGETS) return;
+    if (!modelProvider.isConfigured()) {
+      handleSendMessage(query); // Reports the missing configuration
+      return;
+    }
+
+    setIsLoading(true);
+    const abortController = new AbortController();
+    streamAbortControllerRef.current = abortController;
+    const history = chatMessages;
+    const startedAt = Date.now();
+    const columns = targets.map((target, index) => ({
+      target,
+      urls: urlGroups.find(group => group.id === target.groupId)?.urls || [],
+      files: urlGroups.find(group => group.id === target.groupId)?.files,
+      message: { id: `compare-${startedAt}-${index}`, text: 'Thinking...', sender: MessageSender.MODEL, timestamp: new Date(), isLoading: true },
+    }));
+    setComparison({ question: query, columns });
+    const updateColumn = (targetId: string, update: (msg: ChatMessage) => ChatMessage) => {
+      setComparison(prev => prev && {
+        ...prev,
+        columns: prev.columns.map(column => column.target.id === targetId ? { ...column, message: update(column.message) } : column),
+      });
+    };
+
+    await Promise.all(columns.map(async ({ target, urls, files, message }) => {
+      try {
+        const contextFiles = await loadContextFiles(files);
+        const { response, timedOut } = await requestAnswer(
+          query,
+          urls,
+          contextFiles,
+          history,
+          target.model ? { ...generationSettings, model: target.model } : generationSettings,
+          abortController,
+          {
+            onChunk: (accumulatedText) => updateColumn(target.id, msg => ({ ...msg, text: accumulatedText, isLoading: false, isStreaming: true })),
+            onRetry: (notice) => updateColumn(target.id, msg => ({ ...msg, text: notice })),
+          }
+        );
+        setUrlHealth(prevHealth => recordUrlRetrievals(prevHealth, response.urlContextMetadata));
+        updateColumn(target.id, () => ({
+          ...toAnswerMessage(message, response, timedOut, abortController.signal.aborted),
+          fileSources: toFileReferences(contextFiles),
+        }));
+      } catch (e) {
+        updateColumn(target.id, () => toErrorMessage(message.id, toModelError(e, 'Failed to get response from AI')));
+      }
+    }));
+    streamAbortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Moves the chosen answer, with its question, into the open session and closes the comparison.
+  const handleKeepComparisonAnswer = (targetId: string) => {
+    const column = comparison?.columns.find(col => col.target.id === targetId);
+    if (!comparison || !column || !activeSession || isLoading) return;
+    const keptAt = Date.now();
+    const userMessage: ChatMessage = { id: `user-${keptAt}`, text: comparison.question, sender: MessageSender.USER, timestamp: new Date(keptAt), urlScope: column.urls };
+    const answer: ChatMessage = { ...column.message, id: `model-response-${keptAt}` };
+    updateSessionMessages(activeSession.id, prevMessages => [...prevMessages, userMessage, answer]);
+    setComparison(null);
+    fetchFollowUpSuggestions(activeSession.id, column.urls, [...chatMessages, userMessage, answer]);
+  };
+
+  const handleDismissComparison = () => {
+    if (isLoading) streamAbortControllerRef.current?.abort();
+    setComparison(null);
+  };
+
+  const handleStopGeneration = () => {
+    streamAbortControllerRef.current?.abort();
+  };
+
+  // Questions typed in the chat input: @-mentioned or pasted URLs narrow the scope to just those.
+  const handleAskQuestion = (query: string) => {
+    handleSendMessage(stripMentionMarkers(query), resolveQueryScope(query, scopedUrlsForChat));
+  };
+
+  const handleToggleUrlInScope = (url: string) => {
+    setExcludedUrlsByGroup(prev => ({
+      ...prev,
+      [activeUrlGroupId]: excludedUrls.includes(url) ? excludedUrls.filter(excluded => excluded !== url) : [...excludedUrls, url],
+    }));
+  };
+
+  const handleSetAllUrlsInScope = (inScope: boolean) => {
+    setExcludedUrlsByGroup(prev => ({ ...prev, [activeUrlGroupId]: inScope ? [] : currentUrlsForChat }));
+  };
+
   const handleSuggestedQueryClick = (query: string) => {
     handleSendMessage(query);
   };
+
+  // Re-asks the question that produced `modelMessageId`, leaving out URLs that failed in that
+  // answer as well as URLs known to be dead.
+  const handleRetryWithoutFailingUrls = (modelMessageId: string) => {
+    const index = chatMessages.findIndex(msg => msg.id === modelMessageId);
+    const question = chatMessages.slice(0, index).reverse().find(msg => msg.sender === MessageSender.USER);
+    if (index === -1 || !question) return;
+    const excluded = new Set([...getFailedUrls(chatMessages[index].urlContext), ...deadUrls]);
+    handleSendMessage(question.text, (question.urlScope || currentUrlsForChat).filter(url => !excluded.has(url)));
+  };
+
+  // The user question that a message belongs to: the message itself, or the closest one before it.
+  const findTurnQuestionIndex = (messageId: string): number => {
+    const index = chatMessages.findIndex(msg => msg.id === messageId);
+    for (let i = index; i >= 0; i--) {
+      if (chatMessages[i].sender === MessageSender.USER) return i;
+    }
+    return -1;
+  };
+
+  const handleRegenerateMessage = (modelMessageId: string, model?: string) => {
+    const questionIndex = findTurnQuestionIndex(modelMessageId);
+    if (questionIndex === -1) return;
+    const question = chatMessages[questionIndex];
+    handleSendMessage(question.text, question.urlScope || currentUrlsForChat, {
+      baseMessages: chatMessages.slice(0, questionIndex),
+      model,
+    });
+  };
+
+  const handleEditAndResend = (userMessageId: string, newText: string) => {
+    const questionIndex = chatMessages.findIndex(msg => msg.id === userMessageId);
+    if (questionIndex === -1) return;
+    // An edited question keeps its scope unless the new text mentions URLs of its own.
+    const scope = chatMessages[questionIndex].urlScope || scopedUrlsForChat;
+    handleSendMessage(stripMentionMarkers(newText), resolveQueryScope(newText, scope), { baseMessages: chatMessages.slice(0, questionIndex) });
+  };
+
+  // Deletes a whole turn: the question and every reply up to the next question.
+  const handleDeleteTurn = (messageId: string) => {
+    const questionIndex = findTurnQuestionIndex(messageId);
+    const start = questionIndex === -1 ? chatMessages.findIndex(msg => msg.id === messageId) : questionIndex;
+    if (start === -1) return;
+    let end = start + 1;
+    while (end < chatMessages.length && chatMessages[end].sender !== MessageSender.USER) end++;
+    const removedIds = new Set(chatMessages.slice(start, end).map(msg => msg.id));
+    setChatMessages(prev => prev.filter(msg => !removedIds.has(msg.id)));
+  };
+
+  const handleRemoveDeadUrls = () => {
+    const dead = new Set(deadUrls);
+    const remainingGroups = urlGroups.map(group =>
+      group.id === activeUrlGroupId ? { ...group, urls: group.urls.filter(url => !dead.has(url)) } : group
+    );
+    setUrlGroups(remainingGroups);
+    deleteOrphanedPages(deadUrls, remainingGroups);
+    pruneExcludedUrls(deadUrls);
+  };
   
   const chatPlaceholder = currentUrlsForChat.length > 0 
     ? `Ask questions about "${activeGroup?.name || 'current documents'}"...`
@@ -233,34 +924,119 @@ const App: React.FC = () => {
         <div className={`
           fixed top-0 left-0 h-full w-11/12 max-w-sm z-30 transform transition-transform ease-in-out duration-300 p-3
           md:static md:p-0 md:w-1/3 lg:w-1/4 md:h-full md:max-w-none md:translate-x-0 md:z-auto
+          flex flex-col gap-3
           ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'}
         `}>
-          <KnowledgeBaseManager
-            urls={currentUrlsForChat}
-            onAddUrl={handleAddUrl}
-            onRemoveUrl={handleRemoveUrl}
-            maxUrls={MAX_URLS}
-            urlGroups={urlGroups}
-            activeUrlGroupId={activeUrlGroupId}
-            onSetGroupId={setActiveUrlGroupId}
-            onCloseSidebar={() => setIsSidebarOpen(false)}
-          />
+          <div className="flex-grow min-h-0">
+            <KnowledgeBaseManager
+              urls={currentUrlsForChat}
+              excludedUrls={excludedUrls}
+              onToggleUrlInScope={handleToggleUrlInScope}
+              onSetAllUrlsInScope={handleSetAllUrlsInScope}
+              onAddUrl={handleAddUrl}
+              onAddUrls={handleAddUrls}
+              onRemoveUrl={handleRemoveUrl}
+              files={activeGroup?.files}
+              onAddFiles={handleAddFiles}
+              onRemoveFile={handleRemoveFile}
+              urlHealth={urlHealth}
+              pageCacheDates={isLocalRetrieval ? pageCacheDates : undefined}
+              onRefreshPageCache={isLocalRetrieval ? handleRefreshPageCache : undefined}
+              isRefreshingPageCache={isRefreshingPageCache}
+              maxUrls={MAX_URLS}
+              perRequestUrlLimit={modelProvider.maxUrlsPerRequest}
+              urlGroups={urlGroups}
+              activeUrlGroupId={activeUrlGroupId}
+              onSetGroupId={setActiveUrlGroupId}
+              onCreateGroup={handleCreateGroup}
+              onRenameGroup={handleRenameGroup}
+              onDuplicateGroup={handleDuplicateGroup}
+              onDeleteGroup={handleDeleteGroup}
+              onMoveGroup={handleMoveGroup}
+              onExportGroups={handleExportGroups}
+              onImportGroups={handleImportGroups}
+              onCloseSidebar={() => setIsSidebarOpen(false)}
+            />
+          </div>
+          <div className="flex-shrink-0 max-h-[40%] flex flex-col">
+            <SessionHistory
+              sessions={groupSessions}
+              activeSessionId={activeSession?.id}
+              onOpenSession={openSession}
+              onNewSession={handleNewSession}
+              onRenameSession={handleRenameSession}
+              onDeleteSession={handleDeleteSession}
+              disabled={isLoading}
+            />
+          </div>
         </div>
 
         {/* Chat Interface */}
         <div className="w-full h-full p-3 md:p-0 md:w-2/3 lg:w-3/4">
           <ChatInterface
             messages={chatMessages}
-            onSendMessage={handleSendMessage}
+            onSendMessage={handleAskQuestion}
+            onRetryWithoutFailingUrls={handleRetryWithoutFailingUrls}
+            onRegenerateMessage={handleRegenerateMessage}
+            onContinueMessage={handleContinueMessage}
+            groupUrls={currentUrlsForChat}
+            scopedUrlCount={scopedUrlsForChat.length}
+            onResetScope={() => handleSetAllUrlsInScope(true)}
+            compareTargets={compareTargets}
+            onCompare={handleCompare}
+            comparison={comparison}
+            groupNames={new Map(urlGroups.map(group => [group.id, group.name]))}
+            onKeepComparisonAnswer={handleKeepComparisonAnswer}
+            onDismissComparison={handleDismissComparison}
+            onEditAndResend={handleEditAndResend}
+            onDeleteTurn={handleDeleteTurn}
+            regenerateModelOptions={modelProvider.id === 'gemini' ? GEMINI_MODEL_OPTIONS : []}
+            deadUrls={deadUrls}
+            onRemoveDeadUrls={handleRemoveDeadUrls}
+            modelProviders={MODEL_PROVIDERS}
+            activeModelProviderId={modelProviderId}
+            onSetModelProviderId={setModelProviderId}
             isLoading={isLoading}
+            onStopGeneration={handleStopGeneration}
             placeholderText={chatPlaceholder}
-            initialQuerySuggestions={initialQuerySuggestions}
+            querySuggestions={querySuggestions}
+            onRefreshSuggestions={currentUrlsForChat.length > 0 && modelProvider.isConfigured() ? handleRefreshSuggestions : undefined}
             onSuggestedQueryClick={handleSuggestedQueryClick}
             isFetchingSuggestions={isFetchingSuggestions}
             onToggleSidebar={() => setIsSidebarOpen(true)}
+            onOpenSettings={() => setIsSettingsOpen(true)}
+            onOpenSearch={() => setIsSearchOpen(true)}
+            highlightedMessageId={highlightedMessageId}
+            onExportConversation={handleExportConversation}
+            onImportConversation={handleImportConversation}
+            sessionUsage={sessionUsage}
+            groupUsage={groupUsage}
+            budgetWarning={budgetWarning}
+            prices={usageSettings.prices}
           />
         </div>
       </div>
+
+      {isSearchOpen && (
+        <SearchPalette
+          sessions={chatSessions}
+          urlGroups={urlGroups}
+          activeUrlGroupId={activeUrlGroupId}
+          onJumpToMessage={handleJumpToMessage}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={generationSettings}
+          modelProvider={modelProvider}
+          onSave={setGenerationSettings}
+          usageSettings={usageSettings}
+          onSaveUsageSettings={setUsageSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useRef } from 'react';
+import { X, Upload } from 'lucide-react';
+import { UrlImportFormat, extractUrls, planUrlImport, UrlImportPlan } from '../services/urlImportService';
+
+interface BulkImportDialogProps {
+  groupName: string;
+  existingUrls: string[];
+  maxUrls: number;
+  onImport: (urls: string[]) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: UrlImportFormat; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'list', label: 'URL list (newline or comma separated)' },
+  { value: 'sitemap', label: 'sitemap.xml' },
+  { value: 'llms', label: 'llms.txt index' },
+];
+
+const inputClasses = "w-full py-1.5 px-2.5 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm";
+
+const UrlPreviewList: React.FC<{ title: string; urls: string[]; colorClass: string }> = ({ title, urls, colorClass }) => {
+  if (urls.length === 0) return null;
+  return (
+    <div className="mb-2">
+      <h4 className={`text-xs font-semibold mb-1 ${colorClass}`}>{title} ({urls.length})</h4>
+      <ul className="space-y-0.5 max-h-32 overflow-y-auto chat-container">
+        {urls.map(url => (
+          <li key={url} className="text-[11px] text-[#A8ABB4] break-all">{url}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const BulkImportDialog: React.FC<BulkImportDialogProps> = ({
+  groupName,
+  existingUrls,
+  maxUrls,
+  onImport,
+  onClose,
+}) => {
+  const [sourceText, setSourceText] = useState('');
+  const [format, setFormat] = useState<UrlImportFormat>('auto');
+  const [pathPrefix, setPathPrefix] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { plan, parseError } = useMemo((): { plan: UrlImportPlan | null; parseError: string | null } => {
+    if (!sourceText.trim()) return { plan: null, parseError: null };
+    try {
+      return { plan: planUrlImport(extractUrls(sourceText, format), existingUrls, maxUrls, pathPrefix), parseError: null };
+    } catch (e: any) {
+      return { plan: null, parseError: e.message || 'Could not read the pasted content.' };
+    }
+  }, [sourceText, format, pathPrefix, existingUrls, maxUrls]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSourceText(await file.text());
+  };
+
+  const handleCommit = () => {
+    if (!plan || plan.toAdd.length === 0) return;
+    onImport(plan.toAdd);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bulk-import-title"
+        className="bg-[#1E1E1E] border border-[rgba(255,255,255,0.05)] rounded-xl shadow-md w-full max-w-2xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[rgba(255,255,255,0.05)] flex items-center justify-between">
+          <h2 id="bulk-import-title" className="text-lg font-semibold text-[#E2E2E2]">Bulk import into "{groupName}"</h2>
+          <button onClick={onClose} className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors" aria-label="Close bulk import">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto chat-container space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select value={format} onChange={(e) => setFormat(e.target.value as UrlImportFormat)} className={`${inputClasses} sm:w-1/2`} aria-label="Import format">
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={pathPrefix}
+              onChange={(e) => setPathPrefix(e.target.value)}
+              placeholder="Path prefix filter, e.g. /gemini-api/docs"
+              className={`${inputClasses} sm:w-1/2`}
+              aria-label="Path prefix filter"
+            />
+          </div>
+          <textarea
+            value={sourceText}
+            onChange={(e) => setSourceText(e.target.value)}
+            placeholder="Paste URLs, a sitemap.xml document or an llms.txt index..."
+            className={`${inputClasses} h-36 resize-y font-mono text-xs`}
+            aria-label="URLs to import"
+          />
+          <div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+            >
+              <Upload size={14} /> Upload file
+            </button>
+            <input ref={fileInputRef} type="file" accept=".xml,.txt,.md,text/plain,application/xml,text/xml" className="hidden" onChange={handleFileChange} />
+          </div>
+
+          {parseError && <p className="text-xs text-[#f87171]">{parseError}</p>}
+          {plan && (
+            <div>
+              <p className="text-xs text-[#A8ABB4] mb-2">
+                {plan.toAdd.length} to add, {plan.dropped.length} over the {maxUrls}-URL limit, {plan.alreadyInGroup.length} already in group
+                {plan.filteredOut > 0 && `, ${plan.filteredOut} filtered out by prefix`}
+                {plan.invalid.length > 0 && `, ${plan.invalid.length} invalid`}.
+              </p>
+              <UrlPreviewList title="Will be added" urls={plan.toAdd} colorClass="text-[#E2E2E2]" />
+              <UrlPreviewList title={`Will be dropped (group limit is ${maxUrls})`} urls={plan.dropped} colorClass="text-[#fbbf24]" />
+              <UrlPreviewList title="Already in group" urls={plan.alreadyInGroup} colorClass="text-[#777777]" />
+              <UrlPreviewList title="Invalid entries" urls={plan.invalid} colorClass="text-[#f87171]" />
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-[rgba(255,255,255,0.05)] flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={!plan || plan.toAdd.length === 0}
+            className="px-3 py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777]"
+          >
+            Add {plan?.toAdd.length || 0} URL{plan?.toAdd.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportDialog;
@@ -4,48 +4,199 @@
 */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageSender } from '../types'; 
+import { ChatMessage, MessageSender, UsageSettings } from '../types'; 
 import MessageItem from './MessageItem';
-import { Send, Menu } from 'lucide-react';
+import ConversationExportMenu from './ConversationExportMenu';
+import CompareTargetPicker from './CompareTargetPicker';
+import ComparisonView from './ComparisonView';
+import { ConversationExportFormat } from '../services/conversationExportService';
+import { ModelProvider, ModelProviderId } from '../services/modelProvider';
+import { CompareTarget, Comparison, MIN_COMPARE_TARGETS } from '../services/comparisonService';
+import { ActiveMention, extractMentionedUrls, filterMentionCandidates, getActiveMention, insertMention } from '../services/urlScopeService';
+import { UsageSummary, describeUsageBreakdown, formatUsageTotals } from '../services/usageService';
+import { Send, Menu, Square, AlertTriangle, Settings, Search, RefreshCw, Columns2, AtSign } from 'lucide-react';
+
+// Tooltip for the usage line in the header: token breakdown per scope and any unpriced answers.
+const describeUsageSummary = (sessionUsage: UsageSummary, groupUsage?: UsageSummary): string => {
+  const describe = (label: string, summary: UsageSummary) => [
+    `${label} (${summary.answers} answer${summary.answers === 1 ? '' : 's'}):`,
+    ...describeUsageBreakdown(summary).map(line => `  ${line}`),
+    ...(summary.unpricedAnswers > 0 ? [`  ${summary.unpricedAnswers} answer(s) from models without a price are not in the cost.`] : []),
+  ];
+  return [...describe('Session', sessionUsage), ...(groupUsage ? describe('Group', groupUsage) : [])].join('\n');
+};
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (query: string) => void;
+  onRetryWithoutFailingUrls?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string, model?: string) => void;
+  onContinueMessage?: (messageId: string) => void; // Resumes an answer truncated by the token limit
+  onEditAndResend?: (messageId: string, newText: string) => void;
+  onDeleteTurn?: (messageId: string) => void;
+  regenerateModelOptions?: { value: string; label: string }[];
+  deadUrls?: string[];
+  onRemoveDeadUrls?: () => void;
   isLoading: boolean;
+  onStopGeneration?: () => void;
   placeholderText?: string;
-  initialQuerySuggestions?: string[];
+  querySuggestions?: string[]; // Quick-start questions, or follow-ups once the chat has questions
   onSuggestedQueryClick?: (query: string) => void;
+  onRefreshSuggestions?: () => void;
   isFetchingSuggestions?: boolean;
   onToggleSidebar?: () => void;
+  modelProviders?: ModelProvider[];
+  activeModelProviderId?: ModelProviderId;
+  onSetModelProviderId?: (id: ModelProviderId) => void;
+  onOpenSettings?: () => void;
+  onExportConversation?: (format: ConversationExportFormat) => void;
+  onImportConversation?: (json: string) => string;
+  onOpenSearch?: () => void;
+  highlightedMessageId?: string | null; // Scrolled into view and briefly highlighted
+  groupUrls?: string[]; // Offered by the @-mention menu
+  scopedUrlCount?: number; // URLs checked in the knowledge base
+  onResetScope?: () => void;
+  compareTargets?: CompareTarget[];
+  onCompare?: (query: string, targetIds: string[]) => void;
+  comparison?: Comparison | null;
+  groupNames?: Map<string, string>;
+  onKeepComparisonAnswer?: (targetId: string) => void;
+  onDismissComparison?: () => void;
+  sessionUsage?: UsageSummary;
+  groupUsage?: UsageSummary;
+  budgetWarning?: string | null; // Shown above the input when the group is near its token budget
+  prices?: UsageSettings['prices'];
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
+  onRetryWithoutFailingUrls,
+  onRegenerateMessage,
+  onContinueMessage,
+  onEditAndResend,
+  onDeleteTurn,
+  regenerateModelOptions,
+  deadUrls = [],
+  onRemoveDeadUrls,
   isLoading, 
+  onStopGeneration,
   placeholderText,
-  initialQuerySuggestions,
+  querySuggestions = [],
   onSuggestedQueryClick,
+  onRefreshSuggestions,
   isFetchingSuggestions,
   onToggleSidebar,
+  modelProviders,
+  activeModelProviderId,
+  onSetModelProviderId,
+  onOpenSettings,
+  onExportConversation,
+  onImportConversation,
+  onOpenSearch,
+  highlightedMessageId,
+  groupUrls = [],
+  scopedUrlCount = groupUrls.length,
+  onResetScope,
+  compareTargets = [],
+  onCompare,
+  comparison,
+  groupNames = new Map(),
+  onKeepComparisonAnswer,
+  onDismissComparison,
+  sessionUsage,
+  groupUsage,
+  budgetWarning,
+  prices,
 }) => {
   const [userQuery, setUserQuery] = useState('');
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareTargetIds, setCompareTargetIds] = useState<string[]>([]);
+  const [mention, setMention] = useState<ActiveMention | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  useEffect(scrollToBottom, [messages]);
+  useEffect(() => {
+    if (highlightedMessageId) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      scrollToBottom();
+    }
+  }, [messages, highlightedMessageId, comparison]);
+
+  // Targets can disappear (a group deleted or emptied, a provider switched), so only those still
+  // offered count.
+  const selectedCompareIds = compareTargetIds.filter(id => compareTargets.some(target => target.id === id));
+  const isCompareAvailable = !!onCompare && compareTargets.length >= MIN_COMPARE_TARGETS;
+  const isComparing = isCompareMode && isCompareAvailable;
+  const canCompare = isComparing && selectedCompareIds.length >= MIN_COMPARE_TARGETS;
 
   const handleSend = () => {
-    if (userQuery.trim() && !isLoading) {
+    if (!userQuery.trim() || isLoading || (isComparing && !canCompare)) return;
+    if (isComparing && onCompare) {
+      onCompare(userQuery.trim(), selectedCompareIds);
+    } else {
       onSendMessage(userQuery.trim());
-      setUserQuery('');
+    }
+    setUserQuery('');
+    setMention(null);
+  };
+
+  const mentionCandidates = mention ? filterMentionCandidates(groupUrls, mention.query) : [];
+  const isMentionMenuOpen = mentionCandidates.length > 0;
+  const mentionedUrls = extractMentionedUrls(userQuery);
+  const newMentionedUrlCount = mentionedUrls.filter(url => !groupUrls.includes(url)).length;
+
+  const updateMention = (textarea: HTMLTextAreaElement) => {
+    const nextMention = getActiveMention(textarea.value, textarea.selectionStart);
+    if (nextMention?.start !== mention?.start || nextMention?.query !== mention?.query) {
+      setMention(nextMention);
+      setMentionIndex(0);
+    }
+  };
+
+  const chooseMention = (url: string) => {
+    if (!mention) return;
+    const { text, caret } = insertMention(userQuery, mention, url);
+    setUserQuery(text);
+    setMention(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isMentionMenuOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const offset = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(index => (index + offset + mentionCandidates.length) % mentionCandidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        chooseMention(mentionCandidates[Math.min(mentionIndex, mentionCandidates.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
     }
   };
 
-  const showSuggestions = initialQuerySuggestions && initialQuerySuggestions.length > 0 && messages.filter(m => m.sender !== MessageSender.SYSTEM).length <= 1;
+  const hasQuestions = messages.some(m => m.sender === MessageSender.USER);
+  const showSuggestions = !isLoading && !isFetchingSuggestions && !comparison && (querySuggestions.length > 0 || !!onRefreshSuggestions);
 
   return (
     <div className="flex flex-col h-full bg-[#1E1E1E] rounded-xl shadow-md border border-[rgba(255,255,255,0.05)]">
@@ -65,18 +216,89 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             {placeholderText && messages.filter(m => m.sender !== MessageSender.SYSTEM).length === 0 && (
                <p className="text-xs text-[#A8ABB4] mt-1 max-w-md truncate" title={placeholderText}>{placeholderText}</p>
             )}
+            {sessionUsage && sessionUsage.answers > 0 && (
+              <p className="text-xs text-[#777777] mt-1" title={describeUsageSummary(sessionUsage, groupUsage)}>
+                Session: {formatUsageTotals(sessionUsage.totalTokens, sessionUsage.cost)}
+                {groupUsage && ` · Group: ${formatUsageTotals(groupUsage.totalTokens, groupUsage.cost)}`}
+              </p>
+            )}
           </div>
         </div>
-        {/* ThemeSwitcher removed */}
+        <div className="flex items-center gap-2 max-w-[50%]">
+          {modelProviders && modelProviders.length > 1 && onSetModelProviderId && (
+            <select
+              value={activeModelProviderId}
+              onChange={(e) => onSetModelProviderId(e.target.value as ModelProviderId)}
+              disabled={isLoading}
+              className="py-1 pl-2 pr-6 min-w-0 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#A8ABB4] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-xs"
+              aria-label="Model provider"
+            >
+              {modelProviders.map(provider => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.name}{provider.isConfigured() ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          )}
+          {onOpenSearch && (
+            <button
+              onClick={onOpenSearch}
+              className="p-1.5 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors flex-shrink-0"
+              aria-label="Search chat history"
+              title="Search chat history (Ctrl+K)"
+            >
+              <Search size={18} />
+            </button>
+          )}
+          {onExportConversation && (
+            <ConversationExportMenu
+              canExport={!isLoading && messages.some(m => m.sender !== MessageSender.SYSTEM)}
+              onExportConversation={onExportConversation}
+              onImportConversation={isLoading ? undefined : onImportConversation}
+            />
+          )}
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="p-1.5 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors flex-shrink-0"
+              aria-label="Model settings"
+              title="Model settings"
+            >
+              <Settings size={18} />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex-grow p-4 overflow-y-auto chat-container bg-[#282828]">
         {/* New wrapper for max-width and centering */}
         <div className="max-w-4xl mx-auto w-full">
           {messages.map((msg) => (
-            <MessageItem key={msg.id} message={msg} />
+            <MessageItem
+              key={msg.id}
+              message={msg}
+              onRetryWithoutFailingUrls={isLoading ? undefined : onRetryWithoutFailingUrls}
+              onRegenerate={isLoading ? undefined : onRegenerateMessage}
+              onContinue={isLoading ? undefined : onContinueMessage}
+              onEditAndResend={isLoading ? undefined : onEditAndResend}
+              onDelete={isLoading ? undefined : onDeleteTurn}
+              regenerateModelOptions={regenerateModelOptions}
+              isHighlighted={msg.id === highlightedMessageId}
+              prices={prices}
+            />
           ))}
           
+          {comparison && onKeepComparisonAnswer && onDismissComparison && (
+            <ComparisonView
+              comparison={comparison}
+              groupNames={groupNames}
+              isLoading={isLoading}
+              onKeepAnswer={onKeepComparisonAnswer}
+              onDismiss={onDismissComparison}
+              prices={prices}
+            />
+          )}
+
           {isFetchingSuggestions && (
               <div className="flex justify-center items-center p-3">
                   <div className="flex items-center space-x-1.5 text-[#A8ABB4]">
@@ -90,9 +312,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
           {showSuggestions && onSuggestedQueryClick && (
             <div className="my-3 px-1">
-              <p className="text-xs text-[#A8ABB4] mb-1.5 font-medium">Or try one of these: </p>
+              <div className="flex items-center gap-1.5 mb-1.5">
+                <p className="text-xs text-[#A8ABB4] font-medium">
+                  {querySuggestions.length === 0 ? 'No suggestions yet.' : hasQuestions ? 'Suggested follow-ups:' : 'Or try one of these:'}
+                </p>
+                {onRefreshSuggestions && (
+                  <button
+                    onClick={onRefreshSuggestions}
+                    className="p-0.5 text-[#777777] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+                    aria-label="Refresh suggestions"
+                    title="Refresh suggestions"
+                  >
+                    <RefreshCw size={12} />
+                  </button>
+                )}
+              </div>
               <div className="flex flex-wrap gap-1.5">
-                {initialQuerySuggestions.map((suggestion, index) => (
+                {querySuggestions.map((suggestion, index) => (
                   <button
                     key={index}
                     onClick={() => onSuggestedQueryClick(suggestion)}
@@ -109,32 +345,119 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       </div>
 
       <div className="p-4 border-t border-[rgba(255,255,255,0.05)] bg-[#1E1E1E] rounded-b-xl">
-        <div className="flex items-center gap-2">
+        {deadUrls.length > 0 && (
+          <div className="flex items-start gap-2 mb-2 p-2 rounded-lg bg-[#fbbf24]/10 text-[#fbbf24] text-xs">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            <p className="flex-grow" title={deadUrls.join('\n')}>
+              {deadUrls.length} URL{deadUrls.length === 1 ? ' in this group has' : 's in this group have'} failed to load repeatedly and may degrade answers.
+            </p>
+            {onRemoveDeadUrls && (
+              <button onClick={onRemoveDeadUrls} className="flex-shrink-0 underline hover:text-white transition-colors">
+                Remove {deadUrls.length === 1 ? 'it' : 'them'}
+              </button>
+            )}
+          </div>
+        )}
+        {budgetWarning && (
+          <div className="flex items-start gap-2 mb-2 p-2 rounded-lg bg-[#fbbf24]/10 text-[#fbbf24] text-xs">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            <p className="flex-grow">{budgetWarning}</p>
+          </div>
+        )}
+        {isComparing && (
+          <CompareTargetPicker
+            targets={compareTargets}
+            selectedIds={selectedCompareIds}
+            onChange={setCompareTargetIds}
+            disabled={isLoading}
+          />
+        )}
+        {!isComparing && mentionedUrls.length > 0 ? (
+          <p className="flex items-center gap-1 mb-2 text-xs text-[#79B8FF]" title={mentionedUrls.join('\n')}>
+            <AtSign size={12} className="flex-shrink-0" />
+            Scoped to {mentionedUrls.length} mentioned URL{mentionedUrls.length === 1 ? '' : 's'}
+            {newMentionedUrlCount > 0 && ` (${newMentionedUrlCount} not in this group)`}.
+          </p>
+        ) : !isComparing && scopedUrlCount < groupUrls.length && (
+          <p className="flex items-center gap-1 mb-2 text-xs text-[#A8ABB4]">
+            Scoped to {scopedUrlCount} of {groupUrls.length} URLs checked in the knowledge base.
+            {onResetScope && (
+              <button onClick={onResetScope} className="text-[#79B8FF] hover:underline">Use all</button>
+            )}
+          </p>
+        )}
+        <div className="relative flex items-center gap-2">
+          {isMentionMenuOpen && (
+            <ul
+              className="absolute bottom-full left-0 right-0 mb-1 z-10 max-h-60 overflow-y-auto py-1 bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md shadow-md"
+              role="listbox"
+              aria-label="Group URLs"
+            >
+              {mentionCandidates.map((url, index) => (
+                <li key={url} role="option" aria-selected={index === mentionIndex}>
+                  <button
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => chooseMention(url)}
+                    onMouseEnter={() => setMentionIndex(index)}
+                    className={`block w-full text-left px-3 py-1 text-xs text-[#79B8FF] truncate ${index === mentionIndex ? 'bg-white/10' : ''}`}
+                    title={url}
+                  >
+                    {url}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {isCompareAvailable && (
+            <button
+              onClick={() => setIsCompareMode(mode => !mode)}
+              className={`h-8 w-8 p-1.5 rounded-lg transition-colors flex items-center justify-center flex-shrink-0 ${
+                isComparing ? 'bg-[#79B8FF]/20 text-[#79B8FF]' : 'text-[#A8ABB4] hover:text-white hover:bg-white/10'
+              }`}
+              aria-label="Compare mode"
+              aria-pressed={isComparing}
+              title="Compare answers across groups or models"
+            >
+              <Columns2 size={16} />
+            </button>
+          )}
           <textarea
+            ref={textareaRef}
             value={userQuery}
-            onChange={(e) => setUserQuery(e.target.value)}
-            placeholder="Ask about the documents..."
+            onChange={(e) => {
+              setUserQuery(e.target.value);
+              updateMention(e.target);
+            }}
+            onSelect={(e) => updateMention(e.currentTarget)}
+            onBlur={() => setMention(null)}
+            placeholder={isComparing ? "Ask the selected groups or models..." : "Ask about the documents... (@ to pick a URL)"}
             className="flex-grow h-8 min-h-[32px] py-1.5 px-2.5 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-lg focus:ring-1 focus:ring-white/20 focus:border-white/20 transition-shadow resize-none text-sm"
             rows={1}
-            disabled={isLoading || isFetchingSuggestions}
-            onKeyPress={(e) => {
-              if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                handleSend();
-              }
-            }}
+            disabled={isLoading}
+            onKeyDown={handleInputKeyDown}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || isFetchingSuggestions || !userQuery.trim()}
-            className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777] flex items-center justify-center flex-shrink-0"
-            aria-label="Send message"
-          >
-            {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
-              : <Send size={16} />
-            }
-          </button>
+          {isLoading && onStopGeneration ? (
+            <button
+              onClick={onStopGeneration}
+              className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors flex items-center justify-center flex-shrink-0"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <Square size={14} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || !userQuery.trim() || (isComparing && !canCompare)}
+              className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777] flex items-center justify-center flex-shrink-0"
+              aria-label="Send message"
+            >
+              {(isLoading && messages[messages.length-1]?.isLoading && messages[messages.length-1]?.sender === MessageSender.MODEL) ? 
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div> 
+                : <Send size={16} />
+              }
+            </button>
+          )}
         </div>
       </div>
     </div>
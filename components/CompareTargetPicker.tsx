@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Check } from 'lucide-react';
+import { CompareTarget, MAX_COMPARE_TARGETS, MIN_COMPARE_TARGETS } from '../services/comparisonService';
+
+interface CompareTargetPickerProps {
+  targets: CompareTarget[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Chips for choosing the groups and models a compare-mode question is sent to.
+const CompareTargetPicker: React.FC<CompareTargetPickerProps> = ({ targets, selectedIds, onChange, disabled = false }) => {
+  const groupTargets = targets.filter(target => !target.model);
+  const modelTargets = targets.filter(target => target.model);
+  const isFull = selectedIds.length >= MAX_COMPARE_TARGETS;
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  const renderChips = (label: string, chipTargets: CompareTarget[]) => chipTargets.length > 0 && (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-[11px] text-[#777777] w-12 flex-shrink-0">{label}</span>
+      {chipTargets.map(target => {
+        const isSelected = selectedIds.includes(target.id);
+        return (
+          <button
+            key={target.id}
+            onClick={() => toggle(target.id)}
+            disabled={disabled || (!isSelected && isFull)}
+            aria-pressed={isSelected}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors disabled:opacity-50 ${
+              isSelected ? 'bg-[#79B8FF]/20 text-[#79B8FF]' : 'bg-white/[.06] text-[#A8ABB4] hover:bg-white/10'
+            }`}
+          >
+            {isSelected && <Check size={12} />}
+            {target.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="mb-2 p-2 rounded-lg bg-[#2C2C2C] space-y-1.5">
+      <p className="text-[11px] text-[#A8ABB4]">
+        Compare mode: the next question goes to {MIN_COMPARE_TARGETS}–{MAX_COMPARE_TARGETS} groups or models in parallel ({selectedIds.length} selected).
+      </p>
+      {renderChips('Groups', groupTargets)}
+      {renderChips('Models', modelTargets)}
+    </div>
+  );
+};
+
+export default CompareTargetPicker;
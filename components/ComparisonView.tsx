@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { UsageSettings } from '../types';
+import { Comparison } from '../services/comparisonService';
+import MessageItem from './MessageItem';
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  groupNames: Map<string, string>;
+  isLoading: boolean;
+  onKeepAnswer: (targetId: string) => void;
+  onDismiss: () => void;
+  prices?: UsageSettings['prices'];
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+// Answers to one question from several groups or models, side by side.
+const ComparisonView: React.FC<ComparisonViewProps> = ({ comparison, groupNames, isLoading, onKeepAnswer, onDismiss, prices }) => (
+  <section className="my-4 p-3 rounded-xl border border-[#79B8FF]/30 bg-[#79B8FF]/[.04]" aria-label="Answer comparison">
+    <div className="flex items-start justify-between gap-2 mb-3">
+      <div className="min-w-0">
+        <p className="text-xs text-[#A8ABB4] font-medium">Comparing {comparison.columns.length} answers to:</p>
+        <p className="text-sm text-white break-words">{comparison.question}</p>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors flex-shrink-0"
+        aria-label={isLoading ? 'Stop and discard comparison' : 'Discard comparison'}
+        title={isLoading ? 'Stop and discard comparison' : 'Discard comparison'}
+      >
+        <X size={16} />
+      </button>
+    </div>
+    <div className={`grid grid-cols-1 gap-3 ${GRID_COLUMNS[comparison.columns.length] || 'md:grid-cols-2'}`}>
+      {comparison.columns.map(column => {
+        const canKeep = !isLoading && !column.message.error && !column.message.isLoading;
+        return (
+          <div key={column.target.id} className="min-w-0 flex flex-col">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-[#E2E2E2] truncate">{column.target.label}</h3>
+                <p className="text-[11px] text-[#777777] truncate">
+                  {groupNames.get(column.target.groupId) || 'Deleted group'} · {column.urls.length} URL{column.urls.length === 1 ? '' : 's'}
+                  {column.files?.length ? ` · ${column.files.length} file${column.files.length === 1 ? '' : 's'}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => onKeepAnswer(column.target.id)}
+                disabled={!canKeep}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded-md transition-colors disabled:opacity-40 flex-shrink-0"
+                title="Add this question and answer to the chat"
+              >
+                <Check size={12} /> Keep
+              </button>
+            </div>
+            <MessageItem message={column.message} prices={prices} />
+          </div>
+        );
+      })}
+    </div>
+  </section>
+);
+
+export default ComparisonView;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { ConversationExportFormat } from '../services/conversationExportService';
+
+interface ConversationExportMenuProps {
+  canExport: boolean;
+  onExportConversation: (format: ConversationExportFormat) => void;
+  onImportConversation?: (json: string) => string; // Returns a confirmation notice; throws on invalid input
+}
+
+const EXPORT_OPTIONS: { format: ConversationExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'Sources as footnotes, for docs and tickets' },
+  { format: 'html', label: 'HTML', description: 'Standalone page styled like the chat' },
+  { format: 'json', label: 'JSON', description: 'Lossless, can be imported again' },
+];
+
+const menuItemClasses = "block w-full text-left px-3 py-1.5 hover:bg-white/10 disabled:opacity-50 disabled:hover:bg-transparent";
+
+const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({ canExport, onExportConversation, onImportConversation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleMenu = () => {
+    setIsOpen(open => !open);
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleExport = (format: ConversationExportFormat) => {
+    onExportConversation(format);
+    setIsOpen(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file || !onImportConversation) return;
+    try {
+      setNotice(onImportConversation(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setNotice(null);
+      setError(err.message || 'Failed to import the conversation.');
+    }
+  };
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        onClick={toggleMenu}
+        className="p-1.5 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors"
+        aria-label="Export or import conversation"
+        aria-expanded={isOpen}
+        title="Export or import conversation"
+      >
+        <Download size={18} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-64 py-1 bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md shadow-md text-xs text-[#E2E2E2]">
+          <p className="px-3 py-1 text-[11px] font-semibold text-[#A8ABB4]">Export conversation</p>
+          {EXPORT_OPTIONS.map(option => (
+            <button key={option.format} onClick={() => handleExport(option.format)} disabled={!canExport} className={menuItemClasses}>
+              {option.label}
+              <span className="block text-[11px] text-[#777777]">{option.description}</span>
+            </button>
+          ))}
+          {onImportConversation && (
+            <>
+              <div className="my-1 border-t border-[rgba(255,255,255,0.1)]" />
+              <button onClick={() => importInputRef.current?.click()} className={`${menuItemClasses} flex items-center gap-1.5`}>
+                <Upload size={12} /> Import conversation (JSON)
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </>
+          )}
+          {error && <p className="px-3 py-1 text-[11px] text-[#f87171]">{error}</p>}
+          {notice && !error && <p className="px-3 py-1 text-[11px] text-[#A8ABB4]">{notice}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationExportMenu;
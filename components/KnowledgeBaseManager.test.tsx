@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import KnowledgeBaseManager from './KnowledgeBaseManager';
+
+const renderManager = (urls: string[] = [], maxUrls?: number) => {
+  const onAddUrl = vi.fn();
+  render(
+    <KnowledgeBaseManager
+      urls={urls}
+      onAddUrl={onAddUrl}
+      onRemoveUrl={() => {}}
+      maxUrls={maxUrls}
+      urlGroups={[{ id: 'docs', name: 'Docs', urls }]}
+      activeUrlGroupId="docs"
+      onSetGroupId={() => {}}
+    />
+  );
+  return onAddUrl;
+};
+
+const addUrl = (value: string) => {
+  fireEvent.change(screen.getByPlaceholderText('https://docs.example.com'), { target: { value } });
+  fireEvent.click(screen.getByRole('button', { name: 'Add URL' }));
+};
+
+describe('KnowledgeBaseManager URL validation', () => {
+  it('adds a valid URL in its normalized form', () => {
+    const onAddUrl = renderManager();
+    addUrl('  https://Docs.Example.com  ');
+    expect(onAddUrl).toHaveBeenCalledWith('https://docs.example.com/');
+    expect((screen.getByPlaceholderText('https://docs.example.com') as HTMLInputElement).value).toBe('');
+  });
+
+  it('rejects an empty URL', () => {
+    const onAddUrl = renderManager();
+    addUrl('   ');
+    expect(screen.getByText('URL cannot be empty.')).toBeTruthy();
+    expect(onAddUrl).not.toHaveBeenCalled();
+  });
+
+  it('rejects a URL without http:// or https://', () => {
+    const onAddUrl = renderManager();
+    addUrl('docs.example.com/guide');
+    expect(screen.getByText('Invalid URL format. Please include http:// or https://')).toBeTruthy();
+    addUrl('ftp://docs.example.com');
+    expect(screen.getByText('Invalid URL format. Please include http:// or https://')).toBeTruthy();
+    expect(onAddUrl).not.toHaveBeenCalled();
+  });
+
+  it('rejects a URL already in the group, also when written differently', () => {
+    const onAddUrl = renderManager(['https://x.com']);
+    addUrl('https://x.com/');
+    expect(screen.getByText('This URL has already been added to the current group.')).toBeTruthy();
+    expect(onAddUrl).not.toHaveBeenCalled();
+  });
+
+  it('rejects URLs beyond the group limit', () => {
+    const onAddUrl = renderManager(['https://a.example.com/', 'https://b.example.com/'], 2);
+    expect((screen.getByRole('button', { name: 'Add URL' }) as HTMLButtonElement).disabled).toBe(true);
+    // Enter still submits while the button is disabled.
+    const input = screen.getByPlaceholderText('https://docs.example.com');
+    fireEvent.change(input, { target: { value: 'https://c.example.com/' } });
+    fireEvent.keyPress(input, { key: 'Enter', code: 'Enter', charCode: 13 });
+    expect(screen.getByText('You can add a maximum of 2 URLs to the current group.')).toBeTruthy();
+    expect(onAddUrl).not.toHaveBeenCalled();
+  });
+
+  it('clears the error once a URL is added', () => {
+    const onAddUrl = renderManager();
+    addUrl('not a url');
+    addUrl('https://docs.example.com/guide');
+    expect(screen.queryByText('Invalid URL format. Please include http:// or https://')).toBeNull();
+    expect(onAddUrl).toHaveBeenCalledWith('https://docs.example.com/guide');
+  });
+});
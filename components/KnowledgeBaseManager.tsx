@@ -3,49 +3,120 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { Plus, Trash2, ChevronDown, X } from 'lucide-react';
-import { URLGroup } from '../types';
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, X, ListPlus, FileText, Upload, RefreshCw } from 'lucide-react';
+import { FileSource, URLGroup, UrlGroupsImportSummary } from '../types';
+import { UrlHealthMap, isUrlDead, describeUrlHealth } from '../services/urlHealthService';
+import { ACCEPTED_FILE_EXTENSIONS, formatFileSize } from '../services/localFileService';
+import { formatCacheAge, isPageStale } from '../services/pageCacheService';
+import { normalizeUrl } from '../services/urlImportService';
+import UrlGroupPicker from './UrlGroupPicker';
+import BulkImportDialog from './BulkImportDialog';
 
 interface KnowledgeBaseManagerProps {
   urls: string[];
+  excludedUrls?: string[]; // Unchecked URLs, left out of the next questions
+  onToggleUrlInScope?: (url: string) => void;
+  onSetAllUrlsInScope?: (inScope: boolean) => void;
   onAddUrl: (url: string) => void;
+  onAddUrls?: (urls: string[]) => void;
   onRemoveUrl: (url: string) => void;
+  files?: FileSource[];
+  onAddFiles?: (files: File[]) => Promise<string[]>; // Resolves with an error message per rejected file
+  onRemoveFile?: (id: string) => void;
+  urlHealth?: UrlHealthMap;
+  pageCacheDates?: Record<string, Date>; // Set while the local retrieval mode is on
+  onRefreshPageCache?: () => void;
+  isRefreshingPageCache?: boolean;
   maxUrls?: number;
+  perRequestUrlLimit?: number;
   urlGroups: URLGroup[];
   activeUrlGroupId: string;
   onSetGroupId: (id: string) => void;
+  onCreateGroup?: (name: string) => void;
+  onRenameGroup?: (id: string, name: string) => void;
+  onDuplicateGroup?: (id: string) => void;
+  onDeleteGroup?: (id: string) => void;
+  onMoveGroup?: (id: string, offset: number) => void;
+  onExportGroups?: () => void;
+  onImportGroups?: (json: string) => UrlGroupsImportSummary; // Throws on invalid input
   onCloseSidebar?: () => void;
 }
 
+const UrlHealthIndicator: React.FC<{ url: string; urlHealth: UrlHealthMap }> = ({ url, urlHealth }) => {
+  const health = urlHealth[url];
+  let colorClass = 'bg-[#4A4A4A]'; // Never retrieved
+  if (isUrlDead(health)) {
+    colorClass = 'bg-[#f87171]';
+  } else if (health && health.failureCount > 0) {
+    colorClass = 'bg-[#fbbf24]';
+  } else if (health?.lastSuccess) {
+    colorClass = 'bg-[#4ade80]';
+  }
+  const description = describeUrlHealth(health);
+  return (
+    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${colorClass}`} title={description} aria-label={description} role="img" />
+  );
+};
+
+const PageCacheAge: React.FC<{ fetchedAt?: Date }> = ({ fetchedAt }) => {
+  if (!fetchedAt) {
+    return <span className="text-[10px] text-[#777777] flex-shrink-0" title="Fetched into the cache on the next question">not cached</span>;
+  }
+  const isStale = isPageStale(fetchedAt);
+  return (
+    <span
+      className={`text-[10px] flex-shrink-0 ${isStale ? 'text-[#fbbf24]' : 'text-[#777777]'}`}
+      title={`Cached ${fetchedAt.toLocaleString()}${isStale ? ', fetched again on the next question' : ''}`}
+    >
+      {formatCacheAge(fetchedAt)}
+    </span>
+  );
+};
+
 const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({ 
   urls, 
+  excludedUrls = [],
+  onToggleUrlInScope,
+  onSetAllUrlsInScope,
   onAddUrl, 
+  onAddUrls,
   onRemoveUrl, 
+  files = [],
+  onAddFiles,
+  onRemoveFile,
+  urlHealth = {},
+  pageCacheDates,
+  onRefreshPageCache,
+  isRefreshingPageCache = false,
   maxUrls = 20,
+  perRequestUrlLimit,
   urlGroups,
   activeUrlGroupId,
   onSetGroupId,
+  onCreateGroup,
+  onRenameGroup,
+  onDuplicateGroup,
+  onDeleteGroup,
+  onMoveGroup,
+  onExportGroups,
+  onImportGroups,
   onCloseSidebar,
 }) => {
   const [currentUrlInput, setCurrentUrlInput] = useState('');
   const [error, setError] = useState<string | null>(null);
-
-  const isValidUrl = (urlString: string): boolean => {
-    try {
-      new URL(urlString);
-      return true;
-    } catch (e) {
-      return false;
-    }
-  };
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleAddUrl = () => {
     if (!currentUrlInput.trim()) {
       setError('URL cannot be empty.');
       return;
     }
-    if (!isValidUrl(currentUrlInput)) {
+    // Normalized like bulk import, so "https://x.com" and "https://x.com/" count as the same URL.
+    const url = normalizeUrl(currentUrlInput);
+    if (!url) {
       setError('Invalid URL format. Please include http:// or https://');
       return;
     }
@@ -53,19 +124,51 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
       setError(`You can add a maximum of ${maxUrls} URLs to the current group.`);
       return;
     }
-    if (urls.includes(currentUrlInput)) {
+    if (urls.some(existing => (normalizeUrl(existing) || existing) === url)) {
       setError('This URL has already been added to the current group.');
       return;
     }
-    onAddUrl(currentUrlInput);
+    onAddUrl(url);
     setCurrentUrlInput('');
     setError(null);
   };
 
+  const addFiles = async (fileList: FileList | null) => {
+    if (!onAddFiles || !fileList || fileList.length === 0) return;
+    const errors = await onAddFiles(Array.from(fileList));
+    setError(errors.length > 0 ? errors.join(' ') : null);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onAddFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onAddFiles) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(e.dataTransfer.files);
+  };
+
   const activeGroupName = urlGroups.find(g => g.id === activeUrlGroupId)?.name || "Unknown Group";
+  const scopedCount = urls.filter(url => !excludedUrls.includes(url)).length;
 
   return (
-    <div className="p-4 bg-[#1E1E1E] shadow-md rounded-xl h-full flex flex-col border border-[rgba(255,255,255,0.05)]">
+    <div
+      className={`relative p-4 bg-[#1E1E1E] shadow-md rounded-xl h-full flex flex-col border ${isDraggingFiles ? 'border-[#79B8FF]' : 'border-[rgba(255,255,255,0.05)]'}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-10 rounded-xl bg-[#79B8FF]/10 border-2 border-dashed border-[#79B8FF] flex items-center justify-center pointer-events-none">
+          <p className="text-sm text-[#79B8FF]">Drop PDF, Markdown or OpenAPI files to add them to "{activeGroupName}"</p>
+        </div>
+      )}
       <div className="flex items-center justify-between mb-3">
         <h2 className="text-xl font-semibold text-[#E2E2E2]">Knowledge Base URLs</h2>
         {onCloseSidebar && (
@@ -79,29 +182,18 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
         )}
       </div>
       
-      <div className="mb-3">
-        <label htmlFor="url-group-select-kb" className="block text-sm font-medium text-[#A8ABB4] mb-1">
-          Active URL Group
-        </label>
-        <div className="relative w-full">
-          <select
-            id="url-group-select-kb"
-            value={activeUrlGroupId}
-            onChange={(e) => onSetGroupId(e.target.value)}
-            className="w-full py-2 pl-3 pr-8 appearance-none border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm"
-          >
-            {urlGroups.map(group => (
-              <option key={group.id} value={group.id}>
-                {group.name}
-              </option>
-            ))}
-          </select>
-          <ChevronDown
-            className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A8ABB4] pointer-events-none"
-            aria-hidden="true"
-          />
-        </div>
-      </div>
+      <UrlGroupPicker
+        urlGroups={urlGroups}
+        activeUrlGroupId={activeUrlGroupId}
+        onSetGroupId={onSetGroupId}
+        onCreateGroup={onCreateGroup}
+        onRenameGroup={onRenameGroup}
+        onDuplicateGroup={onDuplicateGroup}
+        onDeleteGroup={onDeleteGroup}
+        onMoveGroup={onMoveGroup}
+        onExportGroups={onExportGroups}
+        onImportGroups={onImportGroups}
+      />
 
       <div className="flex items-center gap-2 mb-3">
         <input
@@ -120,19 +212,96 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
         >
           <Plus size={16} />
         </button>
+        {onAddUrls && (
+          <button
+            onClick={() => setIsBulkImportOpen(true)}
+            disabled={urls.length >= maxUrls}
+            className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors disabled:bg-[#4A4A4A] disabled:text-[#777777] flex items-center justify-center"
+            aria-label="Bulk import URLs"
+            title="Bulk import from a list, sitemap.xml or llms.txt"
+          >
+            <ListPlus size={16} />
+          </button>
+        )}
+        {onAddFiles && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="h-8 w-8 p-1.5 bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors flex items-center justify-center"
+              aria-label="Upload files"
+              title="Upload PDF, Markdown or OpenAPI files (or drop them here)"
+            >
+              <Upload size={16} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_FILE_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
       </div>
       {error && <p className="text-xs text-[#f87171] mb-2">{error}</p>}
+      {perRequestUrlLimit !== undefined && urls.length > perRequestUrlLimit && urls.length < maxUrls && (
+        <p className="text-xs text-[#A8ABB4] mb-2">This group has more than {perRequestUrlLimit} URLs, so each question only reads the pages most relevant to it.</p>
+      )}
       {urls.length >= maxUrls && <p className="text-xs text-[#fbbf24] mb-2">Maximum {maxUrls} URLs reached for this group.</p>}
+      {onToggleUrlInScope && urls.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-2 text-xs text-[#A8ABB4]">
+          <span>{scopedCount === urls.length ? 'Questions use all URLs.' : `Questions use ${scopedCount} of ${urls.length} URLs.`}</span>
+          {onSetAllUrlsInScope && (
+            <button
+              onClick={() => onSetAllUrlsInScope(scopedCount < urls.length)}
+              className="text-[#79B8FF] hover:underline flex-shrink-0"
+            >
+              {scopedCount < urls.length ? 'Select all' : 'Select none'}
+            </button>
+          )}
+        </div>
+      )}
+      {onRefreshPageCache && urls.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-2 text-xs text-[#A8ABB4]">
+          <span>{urls.filter(url => pageCacheDates?.[url]).length} of {urls.length} pages in the local cache.</span>
+          <button
+            onClick={onRefreshPageCache}
+            disabled={isRefreshingPageCache}
+            className="flex items-center gap-1 text-[#79B8FF] hover:underline flex-shrink-0 disabled:text-[#777777] disabled:no-underline"
+          >
+            <RefreshCw size={12} className={isRefreshingPageCache ? 'animate-spin' : ''} />
+            {isRefreshingPageCache ? 'Refreshing...' : 'Refresh cache'}
+          </button>
+        </div>
+      )}
       
       <div className="flex-grow overflow-y-auto space-y-2 chat-container">
-        {urls.length === 0 && (
-          <p className="text-[#777777] text-center py-3 text-sm">Add documentation URLs to the group "{activeGroupName}" to start querying.</p>
+        {urls.length === 0 && files.length === 0 && (
+          <p className="text-[#777777] text-center py-3 text-sm">Add documentation URLs or drop files into the group "{activeGroupName}" to start querying.</p>
         )}
         {urls.map((url) => (
           <div key={url} className="flex items-center justify-between p-2.5 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg hover:shadow-sm transition-shadow">
-            <a href={url} target="_blank" rel="noopener noreferrer" className="text-xs text-[#79B8FF] hover:underline truncate" title={url}>
-              {url}
-            </a>
+            <div className="flex items-center gap-2 min-w-0">
+              {onToggleUrlInScope && (
+                <input
+                  type="checkbox"
+                  checked={!excludedUrls.includes(url)}
+                  onChange={() => onToggleUrlInScope(url)}
+                  className="flex-shrink-0 accent-[#79B8FF]"
+                  aria-label={`Use ${url} for questions`}
+                  title="Use this URL for questions"
+                />
+              )}
+              <UrlHealthIndicator url={url} urlHealth={urlHealth} />
+              <a href={url} target="_blank" rel="noopener noreferrer" className="text-xs text-[#79B8FF] hover:underline truncate" title={url}>
+                {url}
+              </a>
+              {pageCacheDates && <PageCacheAge fetchedAt={pageCacheDates[url]} />}
+            </div>
             <button 
               onClick={() => onRemoveUrl(url)}
               className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-[rgba(255,0,0,0.1)] transition-colors flex-shrink-0 ml-2"
@@ -142,7 +311,37 @@ const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
             </button>
           </div>
         ))}
+        {files.length > 0 && (
+          <h3 className="pt-2 text-xs font-semibold text-[#A8ABB4]">Files (sent with every question)</h3>
+        )}
+        {files.map(file => (
+          <div key={file.id} className="flex items-center justify-between p-2.5 bg-[#2C2C2C] border border-[rgba(255,255,255,0.05)] rounded-lg hover:shadow-sm transition-shadow">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileText size={14} className="text-[#A8ABB4] flex-shrink-0" />
+              <span className="text-xs text-[#E2E2E2] truncate" title={file.name}>{file.name}</span>
+              <span className="text-[10px] text-[#777777] flex-shrink-0">{formatFileSize(file.size)}</span>
+            </div>
+            {onRemoveFile && (
+              <button
+                onClick={() => onRemoveFile(file.id)}
+                className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-[rgba(255,0,0,0.1)] transition-colors flex-shrink-0 ml-2"
+                aria-label={`Remove ${file.name}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ))}
       </div>
+      {isBulkImportOpen && onAddUrls && (
+        <BulkImportDialog
+          groupName={activeGroupName}
+          existingUrls={urls}
+          maxUrls={maxUrls}
+          onImport={onAddUrls}
+          onClose={() => setIsBulkImportOpen(false)}
+        />
+      )}
     </div>
   );
 };
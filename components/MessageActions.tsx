@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Copy, Check, RefreshCw, Pencil, Trash2, ChevronDown } from 'lucide-react';
+
+interface MessageActionsProps {
+  alignRight: boolean;
+  onCopy: () => Promise<void>;
+  onRegenerate?: (model?: string) => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  regenerateModelOptions?: { value: string; label: string }[];
+}
+
+const actionButtonClasses = "p-1 text-[#777777] hover:text-white rounded-md hover:bg-white/10 transition-colors";
+
+// Hover toolbar shown under a chat message.
+const MessageActions: React.FC<MessageActionsProps> = ({
+  alignRight,
+  onCopy,
+  onRegenerate,
+  onEdit,
+  onDelete,
+  regenerateModelOptions = [],
+}) => {
+  const [copied, setCopied] = useState(false);
+  const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await onCopy();
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy message:', err);
+    }
+  };
+
+  const handleDelete = () => {
+    if (onDelete && window.confirm('Delete this question and its answer?')) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div className={`relative flex items-center gap-0.5 mt-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${alignRight ? 'justify-end' : 'justify-start'}`}>
+      <button onClick={handleCopy} className={actionButtonClasses} aria-label="Copy as Markdown" title="Copy as Markdown">
+        {copied ? <Check size={14} /> : <Copy size={14} />}
+      </button>
+      {onRegenerate && (
+        <>
+          <button onClick={() => onRegenerate()} className={actionButtonClasses} aria-label="Regenerate answer" title="Regenerate answer">
+            <RefreshCw size={14} />
+          </button>
+          {regenerateModelOptions.length > 0 && (
+            <button
+              onClick={() => setIsModelMenuOpen(open => !open)}
+              className={`${actionButtonClasses} -ml-1`}
+              aria-label="Regenerate with a different model"
+              aria-expanded={isModelMenuOpen}
+              title="Regenerate with a different model"
+            >
+              <ChevronDown size={12} />
+            </button>
+          )}
+        </>
+      )}
+      {onEdit && (
+        <button onClick={onEdit} className={actionButtonClasses} aria-label="Edit and resend" title="Edit and resend">
+          <Pencil size={14} />
+        </button>
+      )}
+      {onDelete && (
+        <button onClick={handleDelete} className={`${actionButtonClasses} hover:text-[#f87171]`} aria-label="Delete turn" title="Delete turn">
+          <Trash2 size={14} />
+        </button>
+      )}
+
+      {isModelMenuOpen && onRegenerate && (
+        <div className="absolute top-full left-0 mt-1 z-10 min-w-[10rem] py-1 bg-[#2C2C2C] border border-[rgba(255,255,255,0.1)] rounded-md shadow-md">
+          {regenerateModelOptions.map(option => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setIsModelMenuOpen(false);
+                onRegenerate(option.value);
+              }}
+              className="block w-full text-left px-3 py-1 text-xs text-[#E2E2E2] hover:bg-white/10"
+            >
+              Regenerate with {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageActions;
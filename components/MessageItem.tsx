@@ -3,22 +3,33 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { marked } from 'marked';
-import hljs from 'highlight.js';
-import { ChatMessage, MessageSender, UrlContextMetadataItem } from '../types';
-
-// Configure marked to use highlight.js for syntax highlighting
-marked.setOptions({
-  highlight: function(code, lang) {
-    const language = hljs.getLanguage(lang) ? lang : 'plaintext';
-    return hljs.highlight(code, { language }).value;
-  },
-  langPrefix: 'hljs language-', // Prefix for CSS classes
-} as any); // Added 'as any' to bypass the type error
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, FileText, RotateCcw, ShieldAlert } from 'lucide-react';
+import { ChatMessage, MessageSender, UsageSettings } from '../types';
+import { getFailedUrls } from '../services/urlHealthService';
+import { describeModelError } from '../services/modelErrors';
+import { describeFinishReason, describeSafetyRatings, formatBlockReason } from '../services/finishReasons';
+import { renderMarkdown } from '../services/markdownRenderer';
+import { describeUsageBreakdown, estimateCost, formatUsageTotals } from '../services/usageService';
+import {
+  buildSourceList,
+  formatHtmlCitationMarker,
+  formatRetrievalStatus,
+  insertCitationMarkers,
+  isSuccessfulSource,
+} from '../services/messageSources';
+import MessageActions from './MessageActions';
 
 interface MessageItemProps {
   message: ChatMessage;
+  onRetryWithoutFailingUrls?: (messageId: string) => void;
+  onRegenerate?: (messageId: string, model?: string) => void; // Also retries the question of a failed answer
+  onContinue?: (messageId: string) => void;
+  onEditAndResend?: (messageId: string, newText: string) => void;
+  onDelete?: (messageId: string) => void;
+  regenerateModelOptions?: { value: string; label: string }[];
+  isHighlighted?: boolean; // Target of a search jump
+  prices?: UsageSettings['prices']; // Price table for the estimated cost in the usage footer
 }
 
 const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
@@ -47,16 +58,188 @@ const SenderAvatar: React.FC<{ sender: MessageSender }> = ({ sender }) => {
   );
 };
 
-const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
+const MessageItem: React.FC<MessageItemProps> = ({
+  message,
+  onRetryWithoutFailingUrls,
+  onRegenerate,
+  onContinue,
+  onEditAndResend,
+  onDelete,
+  regenerateModelOptions,
+  isHighlighted = false,
+  prices,
+}) => {
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const [editText, setEditText] = useState<string | null>(null);
   const isUser = message.sender === MessageSender.USER;
   const isModel = message.sender === MessageSender.MODEL;
   const isSystem = message.sender === MessageSender.SYSTEM;
+  const sources = useMemo(
+    () => isModel ? buildSourceList(message) : [],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [isModel, message.urlContext, message.citations, message.fileSources]
+  );
+  // Every streamed chunk re-renders the whole chat, so each answer is only parsed, highlighted and
+  // sanitized again when its own text or citations change.
+  const safeMarkup = useMemo(() => {
+    if (!isModel || message.isLoading) return '';
+    const citations = message.citations && !message.isStreaming ? message.citations : undefined;
+    return renderMarkdown(message.text || "", citations && {
+      insert: (text, formatMarker) => insertCitationMarkers(text, citations, sources, formatMarker),
+      formatMarker: formatHtmlCitationMarker(message.id),
+    });
+  }, [isModel, message.id, message.text, message.citations, message.isLoading, message.isStreaming, sources]);
+  const failedUrls = isModel ? getFailedUrls(message.urlContext) : [];
+  const finishNotice = isModel && !message.isStreaming ? describeFinishReason(message.finishReason) : null;
+  const safetyDetails = describeSafetyRatings(message.safetyRatings);
+  // System notices (welcome text, errors) have no turn to act on.
+  const showActions = !isSystem && !message.isLoading && !message.isStreaming && editText === null;
+
+  const findCitationIndex = (target: EventTarget): number | null => {
+    const link = (target as HTMLElement).closest?.('a[data-citation-index]');
+    return link ? Number(link.getAttribute('data-citation-index')) : null;
+  };
+
+  // navigator.clipboard is missing on insecure origins (plain http other than localhost).
+  const copyCodeBlock = async (button: HTMLElement) => {
+    const code = button.closest('.code-block')?.querySelector('pre code')?.textContent || '';
+    try {
+      if (!navigator.clipboard) throw new Error('The clipboard is not available on this page.');
+      await navigator.clipboard.writeText(code);
+      button.textContent = 'Copied!';
+      setTimeout(() => { button.textContent = 'Copy'; }, 1500);
+    } catch (err) {
+      console.error('Failed to copy code:', err);
+    }
+  };
+
+  const handleProseClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const copyButton = (e.target as HTMLElement).closest?.('.code-block-copy');
+    if (copyButton) {
+      copyCodeBlock(copyButton as HTMLElement);
+      return;
+    }
+    const index = findCitationIndex(e.target);
+    if (index === null) return;
+    e.preventDefault();
+    setHighlightedSource(index);
+    document.getElementById(`source-${message.id}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const handleCitationHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    setHighlightedSource(findCitationIndex(e.target));
+  };
+
+  const handleSaveEdit = () => {
+    if (editText === null || !editText.trim() || !onEditAndResend) return;
+    onEditAndResend(message.id, editText.trim());
+    setEditText(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === 'Escape') {
+      setEditText(null);
+    }
+  };
+
+  const renderEditForm = () => (
+    <div className="flex flex-col gap-2">
+      <textarea
+        value={editText || ''}
+        onChange={(e) => setEditText(e.target.value)}
+        onKeyDown={handleEditKeyDown}
+        autoFocus
+        rows={3}
+        className="w-full min-w-[16rem] py-1.5 px-2 border border-[rgba(255,255,255,0.1)] bg-[#1E1E1E] text-[#E2E2E2] rounded-md resize-y text-sm focus:ring-1 focus:ring-white/20 focus:border-white/20"
+        aria-label="Edit question"
+      />
+      <p className="text-[11px] text-white/60">Resending discards everything after this question.</p>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditText(null)} className="px-2.5 py-1 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveEdit}
+          disabled={!editText?.trim()}
+          className="px-2.5 py-1 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded-md transition-colors disabled:opacity-50"
+        >
+          Save & resend
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderError = () => {
+    const { title, hint } = describeModelError(message.error!.kind);
+    return (
+      <div className="text-sm" role="alert">
+        <div className="flex items-center gap-1.5 font-semibold text-[#f87171]">
+          <AlertTriangle size={14} className="flex-shrink-0" /> {title}
+        </div>
+        <p className="mt-1 text-xs text-[#E2E2E2]">{hint}</p>
+        {(message.blockReason || safetyDetails.length > 0) && (
+          <p className="mt-1 text-xs text-[#E2E2E2]">
+            {message.blockReason && <>Reason: {formatBlockReason(message.blockReason)}. </>}
+            {safetyDetails.length > 0 && <>Flagged: {safetyDetails.join(', ')}.</>}
+          </p>
+        )}
+        <p className="mt-1 text-[11px] text-[#777777] break-words">{message.text}</p>
+        {onRegenerate && (
+          <button
+            onClick={() => onRegenerate(message.id)}
+            className="mt-2 flex items-center gap-1 px-2.5 py-1 text-xs bg-white/[.12] hover:bg-white/20 text-white rounded-md transition-colors"
+          >
+            <RotateCcw size={12} /> {message.error!.retryable ? 'Retry' : 'Try again'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Shown under answers that ended early, e.g. at the token limit or on a safety filter.
+  const renderFinishNotice = (notice: NonNullable<typeof finishNotice>) => (
+    <div className="mt-2.5 p-2 rounded-md bg-[#fbbf24]/10 border border-[#fbbf24]/30 text-xs" role="status">
+      <div className="flex items-center gap-1.5 font-semibold text-[#fbbf24]">
+        <ShieldAlert size={14} className="flex-shrink-0" /> {notice.title}
+      </div>
+      <p className="mt-0.5 text-[#E2E2E2]">{notice.hint}</p>
+      {safetyDetails.length > 0 && (
+        <p className="mt-0.5 text-[#A8ABB4]">Flagged: {safetyDetails.join(', ')}.</p>
+      )}
+      {notice.canContinue && onContinue && (
+        <button
+          onClick={() => onContinue(message.id)}
+          className="mt-1.5 flex items-center gap-1 px-2.5 py-1 bg-white/[.12] hover:bg-white/20 text-white rounded-md transition-colors"
+        >
+          Continue <ArrowRight size={12} />
+        </button>
+      )}
+    </div>
+  );
 
   const renderMessageContent = () => {
+    if (isSystem && message.error) {
+      return renderError();
+    }
     if (isModel && !message.isLoading) {
       const proseClasses = "prose prose-sm prose-invert w-full min-w-0"; 
-      const rawMarkup = marked.parse(message.text || "") as string;
-      return <div className={proseClasses} dangerouslySetInnerHTML={{ __html: rawMarkup }} />;
+      return (
+        <>
+          <div
+            className={proseClasses}
+            dangerouslySetInnerHTML={{ __html: safeMarkup }}
+            onClick={handleProseClick}
+            onMouseOver={handleCitationHover}
+            onMouseLeave={() => setHighlightedSource(null)}
+          />
+          {message.isStreaming && (
+            <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-[#A8ABB4] animate-pulse align-middle" aria-hidden="true"></span>
+          )}
+        </>
+      );
     }
     
     let textColorClass = '';
@@ -70,58 +253,124 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
     return <div className={`whitespace-pre-wrap text-sm ${textColorClass}`}>{message.text}</div>;
   };
   
-  let bubbleClasses = "p-3 rounded-lg shadow w-full "; // Added w-full
+  let bubbleClasses = "p-3 rounded-lg shadow w-full min-w-0 "; // min-w-0 lets wide code and tables scroll instead of stretching the bubble
 
   if (isUser) {
     bubbleClasses += "bg-white/[.12] text-white rounded-br-none";
   } else if (isModel) {
     bubbleClasses += `bg-[rgba(119,119,119,0.10)] border-t border-[rgba(255,255,255,0.04)] backdrop-blur-lg rounded-bl-none`;
+  } else if (message.error) {
+    bubbleClasses += "bg-[#f87171]/10 border border-[#f87171]/30 rounded-bl-none";
   } else { // System message
     bubbleClasses += "bg-[#2C2C2C] text-[#A8ABB4] rounded-bl-none";
   }
 
   return (
-    <div className={`flex mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div id={`message-${message.id}`} className={`group flex mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex items-start gap-2 max-w-[85%]`}>
         {!isUser && <SenderAvatar sender={message.sender} />}
-        <div className={bubbleClasses}>
-          {message.isLoading ? (
-            <div className="flex items-center space-x-1.5">
-              <div className={`w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.3s] ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
-              <div className={`w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.15s] ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
-              <div className={`w-1.5 h-1.5 rounded-full animate-bounce ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
-            </div>
-          ) : (
-            renderMessageContent()
-          )}
-          
-          {isModel && message.urlContext && message.urlContext.length > 0 && (
-            <div className="mt-2.5 pt-2.5 border-t border-[rgba(255,255,255,0.1)]">
-              <h4 className="text-xs font-semibold text-[#A8ABB4] mb-1">Context URLs Retrieved:</h4>
-              <ul className="space-y-0.5">
-                {message.urlContext.map((meta, index) => {
-                  const statusText = typeof meta.urlRetrievalStatus === 'string' 
-                    ? meta.urlRetrievalStatus.replace('URL_RETRIEVAL_STATUS_', '') 
-                    : 'UNKNOWN';
-                  const isSuccess = meta.urlRetrievalStatus === 'URL_RETRIEVAL_STATUS_SUCCESS';
-
-                  return (
-                    <li key={index} className="text-[11px] text-[#A8ABB4]">
-                      <a href={meta.retrievedUrl} target="_blank" rel="noopener noreferrer" className="hover:underline break-all text-[#79B8FF]">
-                        {meta.retrievedUrl}
-                      </a>
-                      <span className={`ml-1.5 px-1 py-0.5 rounded-sm text-[9px] ${
-                        isSuccess
-                          ? 'bg-white/[.12] text-white'
-                          : 'bg-slate-600/30 text-slate-400'
-                      }`}>
-                        {statusText}
-                      </span>
-                    </li>
-                  );
-                })}
-              </ul>
-            </div>
+        <div className="min-w-0">
+          <div className={`${bubbleClasses} transition-shadow ${isHighlighted ? 'ring-2 ring-[#fbbf24]/70' : ''}`}>
+            {message.isLoading ? (
+              <div className="flex items-center space-x-1.5">
+                <div className={`w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.3s] ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
+                <div className={`w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.15s] ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
+                <div className={`w-1.5 h-1.5 rounded-full animate-bounce ${isUser ? 'bg-white' : 'bg-[#A8ABB4]'}`}></div>
+              </div>
+            ) : editText !== null ? (
+              renderEditForm()
+            ) : (
+              renderMessageContent()
+            )}
+            
+            {finishNotice && renderFinishNotice(finishNotice)}
+
+            {isUser && message.urlScope && editText === null && (
+              <details className="mt-1.5 text-[11px] text-white/60">
+                <summary className="cursor-pointer select-none hover:text-white">
+                  Asked against {message.urlScope.length} URL{message.urlScope.length === 1 ? '' : 's'}
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {message.urlScope.map(url => (
+                    <li key={url} className="break-all">{url}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {isModel && sources.length > 0 && (
+              <div className="mt-2.5 pt-2.5 border-t border-[rgba(255,255,255,0.1)]">
+                <h4 className="text-xs font-semibold text-[#A8ABB4] mb-1">
+                  {message.fileSources?.length ? 'Context Sources:' : 'Context URLs Retrieved:'}
+                </h4>
+                <ul className="space-y-0.5">
+                  {sources.map((source, index) => {
+                    const statusText = formatRetrievalStatus(source.status);
+                    const isSuccess = isSuccessfulSource(source);
+                    const isHighlighted = highlightedSource === index + 1;
+
+                    return (
+                      <li
+                        key={index}
+                        id={`source-${message.id}-${index + 1}`}
+                        className={`text-[11px] text-[#A8ABB4] rounded-sm transition-colors ${isHighlighted ? 'bg-[#79B8FF]/20' : ''}`}
+                      >
+                        {message.citations && message.citations.length > 0 && (
+                          <span className="mr-1 text-[#777777]">[{index + 1}]</span>
+                        )}
+                        {source.isFile ? (
+                          <span className="inline-flex items-center gap-1 break-all text-[#E2E2E2]">
+                            <FileText size={11} className="flex-shrink-0" /> {source.url}
+                          </span>
+                        ) : (
+                          <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:underline break-all text-[#79B8FF]">
+                            {source.url}
+                          </a>
+                        )}
+                        <span className={`ml-1.5 px-1 py-0.5 rounded-sm text-[9px] ${
+                          isSuccess
+                            ? 'bg-white/[.12] text-white'
+                            : 'bg-slate-600/30 text-slate-400'
+                        }`}>
+                          {statusText}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {failedUrls.length > 0 && onRetryWithoutFailingUrls && !message.isStreaming && (
+                  <button
+                    onClick={() => onRetryWithoutFailingUrls(message.id)}
+                    className="mt-1.5 flex items-center gap-1 text-[11px] text-[#A8ABB4] hover:text-white transition-colors"
+                    title={`Ask again without:\n${failedUrls.join('\n')}`}
+                  >
+                    <RotateCcw size={12} /> Retry without the {failedUrls.length} failing URL{failedUrls.length === 1 ? '' : 's'}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {isModel && message.usage && !message.isStreaming && (
+              <details className="mt-2 text-[11px] text-[#777777]">
+                <summary className="cursor-pointer select-none hover:text-[#A8ABB4]">
+                  {formatUsageTotals(message.usage.totalTokens, prices && estimateCost(message.usage, prices), message.usage.isEstimate)}
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {describeUsageBreakdown(message.usage).map(line => <li key={line}>{line}</li>)}
+                  <li>Model: {message.usage.model}{message.usage.isEstimate ? ' (counts estimated locally)' : ''}</li>
+                </ul>
+              </details>
+            )}
+          </div>
+          {showActions && (
+            <MessageActions
+              alignRight={isUser}
+              onCopy={() => navigator.clipboard.writeText(message.text)}
+              onRegenerate={isModel && onRegenerate ? (model) => onRegenerate(message.id, model) : undefined}
+              onEdit={isUser && onEditAndResend ? () => setEditText(message.text) : undefined}
+              onDelete={onDelete ? () => onDelete(message.id) : undefined}
+              regenerateModelOptions={regenerateModelOptions}
+            />
           )}
         </div>
         {isUser && <SenderAvatar sender={message.sender} />}
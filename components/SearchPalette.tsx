@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { ChatSession, MessageSender, URLGroup } from '../types';
+import { getSessionTitle } from '../services/chatSessionService';
+import { getSearchTerms, searchMessages, splitHighlights } from '../services/messageSearchService';
+
+interface SearchPaletteProps {
+  sessions: ChatSession[];
+  urlGroups: URLGroup[];
+  activeUrlGroupId: string;
+  onJumpToMessage: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const SENDER_LABELS: Record<MessageSender, string> = {
+  [MessageSender.USER]: 'You',
+  [MessageSender.MODEL]: 'Assistant',
+  [MessageSender.SYSTEM]: 'System',
+};
+
+// <input type="date"> values are local calendar days.
+const parseDateInput = (value: string, endOfDay: boolean): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+};
+
+const inputClasses = "py-1 px-2 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-xs";
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {splitHighlights(text, terms).map((segment, index) =>
+      segment.isMatch
+        ? <mark key={index} className="bg-[#fbbf24]/30 text-white rounded-sm">{segment.text}</mark>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ sessions, urlGroups, activeUrlGroupId, onJumpToMessage, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [sender, setSender] = useState<MessageSender | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const terms = getSearchTerms(query);
+  // Sessions left behind by a deleted group cannot be opened, so they are not searched.
+  const results = useMemo(() => searchMessages(sessions.filter(session => urlGroups.some(group => group.id === session.groupId)), {
+    query,
+    groupId: groupId || undefined,
+    sender: sender || undefined,
+    from: parseDateInput(fromDate, false),
+    to: parseDateInput(toDate, true),
+  }), [sessions, urlGroups, query, groupId, sender, fromDate, toDate]);
+
+  const groupNames = new Map(urlGroups.map(group => [group.id, group.name]));
+
+  const jumpTo = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    onJumpToMessage(result.session.id, result.message.id);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      jumpTo(selectedIndex);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setSelectedIndex(0);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search chat history"
+        className="bg-[#1E1E1E] border border-[rgba(255,255,255,0.05)] rounded-xl shadow-md w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="p-3 border-b border-[rgba(255,255,255,0.05)]">
+          <div className="flex items-center gap-2">
+            <Search size={18} className="text-[#777777] flex-shrink-0" />
+            <input
+              value={query}
+              onChange={(e) => updateFilter(setQuery)(e.target.value)}
+              placeholder="Search messages and retrieved URLs..."
+              autoFocus
+              className="flex-grow bg-transparent text-[#E2E2E2] placeholder-[#777777] text-sm focus:outline-none"
+              aria-label="Search query"
+            />
+            <button onClick={onClose} className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors" aria-label="Close search">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <select value={groupId} onChange={(e) => updateFilter(setGroupId)(e.target.value)} className={inputClasses} aria-label="Filter by group">
+              <option value="">All groups</option>
+              {urlGroups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}{group.id === activeUrlGroupId ? ' (active)' : ''}</option>
+              ))}
+            </select>
+            <select value={sender} onChange={(e) => updateFilter(setSender)(e.target.value as MessageSender | '')} className={inputClasses} aria-label="Filter by sender">
+              <option value="">Any sender</option>
+              <option value={MessageSender.USER}>Questions</option>
+              <option value={MessageSender.MODEL}>Answers</option>
+              <option value={MessageSender.SYSTEM}>System notices</option>
+            </select>
+            <label className="flex items-center gap-1 text-xs text-[#A8ABB4]">
+              From <input type="date" value={fromDate} onChange={(e) => updateFilter(setFromDate)(e.target.value)} className={inputClasses} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-[#A8ABB4]">
+              To <input type="date" value={toDate} onChange={(e) => updateFilter(setToDate)(e.target.value)} className={inputClasses} />
+            </label>
+          </div>
+        </div>
+
+        <ul className="overflow-y-auto chat-container p-2 space-y-1" role="listbox" aria-label="Search results">
+          {terms.length === 0 && (
+            <li className="text-xs text-[#777777] text-center py-6">Type to search every chat. Use ↑ ↓ and Enter to jump to a message.</li>
+          )}
+          {terms.length > 0 && results.length === 0 && (
+            <li className="text-xs text-[#777777] text-center py-6">No messages match.</li>
+          )}
+          {results.map((result, index) => (
+            <li key={`${result.session.id}-${result.message.id}`} role="option" aria-selected={index === selectedIndex}>
+              <button
+                onClick={() => jumpTo(index)}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={`w-full text-left p-2 rounded-md transition-colors ${index === selectedIndex ? 'bg-white/[.12]' : 'hover:bg-white/5'}`}
+              >
+                <div className="flex items-center gap-1.5 text-[11px] text-[#777777] mb-0.5">
+                  <span className="px-1 rounded-sm bg-white/[.08] text-[#A8ABB4]">{SENDER_LABELS[result.message.sender]}</span>
+                  <span className="truncate">{groupNames.get(result.session.groupId) || 'Deleted group'} · {getSessionTitle(result.session)}</span>
+                  <span className="ml-auto flex-shrink-0">{result.message.timestamp.toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-[#E2E2E2] break-words">
+                  <Highlighted text={result.snippet} terms={terms} />
+                </p>
+                {result.matchedUrls.length > 0 && (
+                  <ul className="mt-0.5">
+                    {result.matchedUrls.slice(0, 3).map(url => (
+                      <li key={url} className="text-[11px] text-[#79B8FF] break-all">
+                        <Highlighted text={url} terms={terms} />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Check, MessageSquarePlus, Pencil, Search, Trash2, X } from 'lucide-react';
+import { ChatSession, MessageSender } from '../types';
+import { getSessionTitle, hasQuestions, sessionMatchesQuery } from '../services/chatSessionService';
+
+interface SessionHistoryProps {
+  sessions: ChatSession[]; // Sessions of the active group, most recent first
+  activeSessionId?: string;
+  onOpenSession: (session: ChatSession) => void;
+  onNewSession: () => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  disabled?: boolean; // While an answer is streaming; blocks starting a chat or deleting the open one
+}
+
+const iconButtonClasses = "p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors disabled:text-[#4A4A4A] disabled:hover:bg-transparent";
+
+const formatUpdatedAt = (date: Date): string => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({
+  sessions,
+  activeSessionId,
+  onOpenSession,
+  onNewSession,
+  onRenameSession,
+  onDeleteSession,
+  disabled = false,
+}) => {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [titleInput, setTitleInput] = useState('');
+
+  // Blank sessions are only listed while open; they disappear once the user moves on.
+  const visibleSessions = sessions.filter(session =>
+    (hasQuestions(session) || session.id === activeSessionId) && sessionMatchesQuery(session, query)
+  );
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setTitleInput(getSessionTitle(session));
+  };
+
+  const commitRename = () => {
+    if (renamingId && titleInput.trim()) {
+      onRenameSession(renamingId, titleInput.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`Delete the chat "${getSessionTitle(session)}"? This cannot be undone.`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-[#1E1E1E] shadow-md rounded-xl flex flex-col min-h-0 border border-[rgba(255,255,255,0.05)]">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-base font-semibold text-[#E2E2E2]">Chat History</h2>
+        <button onClick={onNewSession} disabled={disabled} className={iconButtonClasses} aria-label="New chat" title="New chat">
+          <MessageSquarePlus size={18} />
+        </button>
+      </div>
+
+      <div className="relative mb-2">
+        <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-[#777777]" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search chats..."
+          className="w-full h-7 py-1 pl-7 pr-2 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-xs"
+          aria-label="Search chats"
+        />
+      </div>
+
+      <ul className="flex-grow overflow-y-auto chat-container space-y-0.5">
+        {visibleSessions.length === 0 && (
+          <li className="text-xs text-[#777777] text-center py-2">{query ? 'No chats match your search.' : 'No past chats for this group.'}</li>
+        )}
+        {visibleSessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          const questionCount = session.messages.filter(msg => msg.sender === MessageSender.USER).length;
+          if (session.id === renamingId) {
+            return (
+              <li key={session.id} className="flex items-center gap-1 p-1">
+                <input
+                  value={titleInput}
+                  onChange={(e) => setTitleInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  autoFocus
+                  className="flex-grow min-w-0 h-7 py-1 px-2 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md text-xs focus:ring-1 focus:ring-white/20 focus:border-white/20"
+                  aria-label="Chat title"
+                />
+                <button onClick={commitRename} disabled={!titleInput.trim()} className={iconButtonClasses} aria-label="Save title">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setRenamingId(null)} className={iconButtonClasses} aria-label="Cancel rename">
+                  <X size={14} />
+                </button>
+              </li>
+            );
+          }
+          return (
+            <li
+              key={session.id}
+              className={`group flex items-center gap-1 rounded-md transition-colors ${isActive ? 'bg-white/[.12]' : 'hover:bg-white/5'}`}
+            >
+              <button
+                onClick={() => onOpenSession(session)}
+                className="flex-grow min-w-0 text-left px-2 py-1.5"
+                aria-current={isActive ? 'true' : undefined}
+              >
+                <span className={`block text-xs truncate ${isActive ? 'text-white' : 'text-[#E2E2E2]'}`} title={getSessionTitle(session)}>
+                  {getSessionTitle(session)}
+                </span>
+                <span className="block text-[10px] text-[#777777]">
+                  {formatUpdatedAt(session.updatedAt)} · {questionCount} question{questionCount === 1 ? '' : 's'}
+                </span>
+              </button>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity pr-1">
+                <button onClick={() => startRename(session)} className={iconButtonClasses} aria-label="Rename chat" title="Rename">
+                  <Pencil size={12} />
+                </button>
+                <button onClick={() => handleDelete(session)} disabled={disabled && isActive} className={`${iconButtonClasses} hover:text-[#f87171]`} aria-label="Delete chat" title="Delete">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { GenerationSettings, RetrievalMode, UsageSettings } from '../types';
+import { ModelProvider } from '../services/modelProvider';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GEMINI_MODEL_OPTIONS,
+  RETRIEVAL_MODE_OPTIONS,
+  SAFETY_CATEGORY_OPTIONS,
+  SAFETY_THRESHOLD_OPTIONS,
+} from '../services/generationSettings';
+import { DEFAULT_USAGE_SETTINGS } from '../services/usageService';
+
+interface SettingsPanelProps {
+  settings: GenerationSettings;
+  modelProvider: ModelProvider;
+  onSave: (settings: GenerationSettings) => void;
+  usageSettings: UsageSettings;
+  onSaveUsageSettings: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+// Numeric fields are edited as strings so that an empty field can mean "model default".
+interface SettingsForm {
+  model: string;
+  temperature: string;
+  maxOutputTokens: string;
+  thinkingBudget: string;
+  systemInstruction: string;
+  safetyThresholds: Record<string, string>;
+  retrievalMode: RetrievalMode;
+  prices: { model: string; input: string; output: string }[];
+  groupTokenBudget: string;
+}
+
+const toForm = (settings: GenerationSettings, usageSettings: UsageSettings): SettingsForm => ({
+  model: settings.model,
+  temperature: settings.temperature?.toString() ?? '',
+  maxOutputTokens: settings.maxOutputTokens?.toString() ?? '',
+  thinkingBudget: settings.thinkingBudget?.toString() ?? '',
+  systemInstruction: settings.systemInstruction,
+  safetyThresholds: { ...settings.safetyThresholds },
+  retrievalMode: settings.retrievalMode,
+  prices: Object.entries(usageSettings.prices).map(([model, price]) => ({
+    model,
+    input: price.inputPerMillion.toString(),
+    output: price.outputPerMillion.toString(),
+  })),
+  groupTokenBudget: usageSettings.groupTokenBudget?.toString() ?? '',
+});
+
+const parseOptionalNumber = (value: string, label: string, min: number, max: number, integer: boolean): number | undefined => {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+    throw new Error(`${label} must be ${integer ? 'a whole number' : 'a number'} between ${min} and ${max}.`);
+  }
+  return parsed;
+};
+
+const inputClasses = "w-full py-1.5 px-2.5 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm disabled:text-[#777777]";
+const labelClasses = "block text-sm font-medium text-[#A8ABB4] mb-1";
+
+const parsePrices = (rows: SettingsForm['prices']): UsageSettings['prices'] => {
+  const prices: UsageSettings['prices'] = {};
+  for (const row of rows) {
+    const model = row.model.trim();
+    if (!model) continue;
+    prices[model] = {
+      inputPerMillion: parseOptionalNumber(row.input, `Input price for ${model}`, 0, 1000, false) ?? 0,
+      outputPerMillion: parseOptionalNumber(row.output, `Output price for ${model}`, 0, 1000, false) ?? 0,
+    };
+  }
+  return prices;
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, modelProvider, onSave, usageSettings, onSaveUsageSettings, onClose }) => {
+  const [form, setForm] = useState<SettingsForm>(() => toForm(settings, usageSettings));
+  const [error, setError] = useState<string | null>(null);
+  const isGemini = modelProvider.id === 'gemini';
+
+  const updateForm = (patch: Partial<SettingsForm>) => {
+    setForm(prev => ({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const updatePrice = (index: number, patch: Partial<SettingsForm['prices'][number]>) => {
+    updateForm({ prices: form.prices.map((row, i) => i === index ? { ...row, ...patch } : row) });
+  };
+
+  const handleSave = () => {
+    try {
+      const nextUsageSettings: UsageSettings = {
+        prices: parsePrices(form.prices),
+        groupTokenBudget: parseOptionalNumber(form.groupTokenBudget, 'Group token budget', 1, 1_000_000_000, true),
+      };
+      onSave({
+        model: form.model,
+        temperature: parseOptionalNumber(form.temperature, 'Temperature', 0, 2, false),
+        maxOutputTokens: parseOptionalNumber(form.maxOutputTokens, 'Max output tokens', 1, 65536, true),
+        thinkingBudget: parseOptionalNumber(form.thinkingBudget, 'Thinking budget', -1, 32768, true),
+        systemInstruction: form.systemInstruction,
+        safetyThresholds: form.safetyThresholds,
+        retrievalMode: form.retrievalMode,
+      });
+      onSaveUsageSettings(nextUsageSettings);
+      onClose();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="bg-[#1E1E1E] border border-[rgba(255,255,255,0.05)] rounded-xl shadow-md w-full max-w-lg max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[rgba(255,255,255,0.05)] flex items-center justify-between">
+          <h2 id="settings-title" className="text-lg font-semibold text-[#E2E2E2]">Model settings</h2>
+          <button onClick={onClose} className="p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors" aria-label="Close settings">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto chat-container space-y-4">
+          <div>
+            <label htmlFor="settings-model" className={labelClasses}>Model</label>
+            <select id="settings-model" value={form.model} onChange={(e) => updateForm({ model: e.target.value })} disabled={!isGemini} className={inputClasses}>
+              {GEMINI_MODEL_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {!isGemini && <p className="text-xs text-[#777777] mt-1">{modelProvider.name} uses the model configured for its endpoint.</p>}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="settings-temperature" className={labelClasses}>Temperature</label>
+              <input id="settings-temperature" type="number" min={0} max={2} step={0.1} value={form.temperature} onChange={(e) => updateForm({ temperature: e.target.value })} placeholder="Default" className={inputClasses} />
+            </div>
+            <div>
+              <label htmlFor="settings-max-tokens" className={labelClasses}>Max output tokens</label>
+              <input id="settings-max-tokens" type="number" min={1} step={1} value={form.maxOutputTokens} onChange={(e) => updateForm({ maxOutputTokens: e.target.value })} placeholder="Default" className={inputClasses} />
+            </div>
+            <div>
+              <label htmlFor="settings-thinking" className={labelClasses}>Thinking budget</label>
+              <input id="settings-thinking" type="number" min={-1} step={1} value={form.thinkingBudget} onChange={(e) => updateForm({ thinkingBudget: e.target.value })} placeholder="Default" disabled={!isGemini} className={inputClasses} />
+            </div>
+          </div>
+          <p className="text-xs text-[#777777] -mt-2">Leave a field empty to use the model default. A thinking budget of -1 lets the model decide and 0 turns thinking off (not supported by Pro models).</p>
+
+          <div>
+            <label htmlFor="settings-system-instruction" className={labelClasses}>System instruction</label>
+            <textarea
+              id="settings-system-instruction"
+              value={form.systemInstruction}
+              onChange={(e) => updateForm({ systemInstruction: e.target.value })}
+              placeholder="e.g. Answer concisely and always include code samples in TypeScript."
+              className={`${inputClasses} h-24 resize-y`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="settings-retrieval-mode" className={labelClasses}>Page retrieval</label>
+            <select id="settings-retrieval-mode" value={form.retrievalMode} onChange={(e) => updateForm({ retrievalMode: e.target.value as RetrievalMode })} className={inputClasses}>
+              {RETRIEVAL_MODE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-[#777777] mt-1">The local cache fetches each page once in the browser and sends only the passages that best match the question. Most sites need the PAGE_FETCH_PROXY setting for this.</p>
+          </div>
+
+          <fieldset disabled={!isGemini}>
+            <legend className={labelClasses}>Safety thresholds</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {SAFETY_CATEGORY_OPTIONS.map(category => (
+                <div key={category.value}>
+                  <label htmlFor={`settings-safety-${category.value}`} className="block text-xs text-[#A8ABB4] mb-1">{category.label}</label>
+                  <select
+                    id={`settings-safety-${category.value}`}
+                    value={form.safetyThresholds[category.value]}
+                    onChange={(e) => updateForm({ safetyThresholds: { ...form.safetyThresholds, [category.value]: e.target.value } })}
+                    className={inputClasses}
+                  >
+                    {SAFETY_THRESHOLD_OPTIONS.map(threshold => (
+                      <option key={threshold.value} value={threshold.value}>{threshold.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className={labelClasses}>Cost tracking</legend>
+            <p className="text-xs text-[#777777] mb-2">Prices in USD per million tokens, used for the estimated cost of each answer. Models missing from the table show token counts only.</p>
+            <div className="space-y-2">
+              {form.prices.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_5rem_5rem_auto] gap-2 items-center">
+                  <input value={row.model} onChange={(e) => updatePrice(index, { model: e.target.value })} placeholder="Model name" aria-label="Model name" className={inputClasses} />
+                  <input type="number" min={0} step={0.01} value={row.input} onChange={(e) => updatePrice(index, { input: e.target.value })} placeholder="Input" aria-label={`Input price for ${row.model || 'model'}`} title="Input (prompt and tool use)" className={inputClasses} />
+                  <input type="number" min={0} step={0.01} value={row.output} onChange={(e) => updatePrice(index, { output: e.target.value })} placeholder="Output" aria-label={`Output price for ${row.model || 'model'}`} title="Output (answer and thinking)" className={inputClasses} />
+                  <button
+                    onClick={() => updateForm({ prices: form.prices.filter((_, i) => i !== index) })}
+                    className="p-1 text-[#A8ABB4] hover:text-[#f87171] rounded-md hover:bg-[rgba(255,0,0,0.1)] transition-colors"
+                    aria-label={`Remove price for ${row.model || 'model'}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateForm({ prices: [...form.prices, { model: '', input: '', output: '' }] })}
+                className="flex items-center gap-1 text-xs text-[#79B8FF] hover:underline"
+              >
+                <Plus size={12} /> Add model price
+              </button>
+            </div>
+            <div className="mt-3">
+              <label htmlFor="settings-group-budget" className="block text-xs text-[#A8ABB4] mb-1">Token budget per group</label>
+              <input id="settings-group-budget" type="number" min={1} step={1000} value={form.groupTokenBudget} onChange={(e) => updateForm({ groupTokenBudget: e.target.value })} placeholder="No budget" className={inputClasses} />
+              <p className="text-xs text-[#777777] mt-1">Warns before sending when the next question is likely to take the group's total past this.</p>
+            </div>
+          </fieldset>
+
+          {error && <p className="text-xs text-[#f87171]">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-[rgba(255,255,255,0.05)] flex justify-between gap-2">
+          <button onClick={() => updateForm(toForm(DEFAULT_GENERATION_SETTINGS, DEFAULT_USAGE_SETTINGS))} className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10 transition-colors">
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 text-sm text-[#A8ABB4] hover:text-white rounded-lg hover:bg-white/10 transition-colors">
+              Cancel
+            </button>
+            <button onClick={handleSave} className="px-3 py-1.5 text-sm bg-white/[.12] hover:bg-white/20 text-white rounded-lg transition-colors">
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef } from 'react';
+import { ChevronDown, ChevronUp, Copy, Download, FolderPlus, Pencil, Trash2, Upload, Check, X } from 'lucide-react';
+import { URLGroup, UrlGroupsImportSummary } from '../types';
+import { validateGroupName } from '../services/urlGroupUtils';
+
+interface UrlGroupPickerProps {
+  urlGroups: URLGroup[];
+  activeUrlGroupId: string;
+  onSetGroupId: (id: string) => void;
+  onCreateGroup?: (name: string) => void;
+  onRenameGroup?: (id: string, name: string) => void;
+  onDuplicateGroup?: (id: string) => void;
+  onDeleteGroup?: (id: string) => void;
+  onMoveGroup?: (id: string, offset: number) => void;
+  onExportGroups?: () => void;
+  onImportGroups?: (json: string) => UrlGroupsImportSummary; // Throws on invalid input
+}
+
+type EditMode = 'none' | 'create' | 'rename';
+
+// Entries left out of the imported groups, listed like the bulk import preview does.
+const describeSkippedImportUrls = ({ invalidUrls, truncatedUrls, maxUrls }: UrlGroupsImportSummary): string | null => {
+  const parts: string[] = [];
+  if (invalidUrls.length > 0) {
+    const shown = invalidUrls.slice(0, 3).join(', ');
+    const more = invalidUrls.length > 3 ? ` and ${invalidUrls.length - 3} more` : '';
+    parts.push(`Skipped ${invalidUrls.length} invalid URL${invalidUrls.length === 1 ? '' : 's'}: ${shown}${more}.`);
+  }
+  if (truncatedUrls > 0) {
+    parts.push(`Dropped ${truncatedUrls} URL${truncatedUrls === 1 ? '' : 's'} over the ${maxUrls}-URL group limit.`);
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+};
+
+const iconButtonClasses = "p-1 text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors disabled:text-[#4A4A4A] disabled:hover:bg-transparent";
+const textButtonClasses = "flex items-center gap-1 px-2 py-1 text-xs text-[#A8ABB4] hover:text-white rounded-md hover:bg-white/10 transition-colors";
+
+const UrlGroupPicker: React.FC<UrlGroupPickerProps> = ({
+  urlGroups,
+  activeUrlGroupId,
+  onSetGroupId,
+  onCreateGroup,
+  onRenameGroup,
+  onDuplicateGroup,
+  onDeleteGroup,
+  onMoveGroup,
+  onExportGroups,
+  onImportGroups,
+}) => {
+  const [editMode, setEditMode] = useState<EditMode>('none');
+  const [nameInput, setNameInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importWarning, setImportWarning] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const activeIndex = urlGroups.findIndex(g => g.id === activeUrlGroupId);
+  const activeGroup = urlGroups[activeIndex];
+
+  const startEdit = (mode: EditMode) => {
+    setEditMode(mode);
+    setNameInput(mode === 'rename' ? activeGroup?.name || '' : '');
+    setError(null);
+    setNotice(null);
+    setImportWarning(null);
+  };
+
+  const cancelEdit = () => {
+    setEditMode('none');
+    setNameInput('');
+    setError(null);
+  };
+
+  const commitEdit = () => {
+    const validationError = validateGroupName(nameInput, urlGroups, editMode === 'rename' ? activeUrlGroupId : undefined);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (editMode === 'create') {
+      onCreateGroup?.(nameInput.trim());
+    } else if (editMode === 'rename' && activeGroup) {
+      onRenameGroup?.(activeGroup.id, nameInput.trim());
+    }
+    cancelEdit();
+  };
+
+  const handleDelete = () => {
+    if (!activeGroup || !onDeleteGroup) return;
+    const confirmed = window.confirm(`Delete the group "${activeGroup.name}" and its ${activeGroup.urls.length} URL(s)? Its chat history will be removed as well.`);
+    if (confirmed) {
+      onDeleteGroup(activeGroup.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file || !onImportGroups) return;
+    try {
+      const summary = onImportGroups(await file.text());
+      const { added } = summary;
+      setError(null);
+      setNotice(added > 0 ? `Imported ${added} group${added === 1 ? '' : 's'}.` : 'No new groups found in the file.');
+      setImportWarning(describeSkippedImportUrls(summary));
+    } catch (err: any) {
+      setNotice(null);
+      setImportWarning(null);
+      setError(err.message || 'Failed to import URL groups.');
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <label htmlFor="url-group-select-kb" className="block text-sm font-medium text-[#A8ABB4] mb-1">
+        {editMode === 'create' ? 'New URL Group' : editMode === 'rename' ? 'Rename URL Group' : 'Active URL Group'}
+      </label>
+      {editMode === 'none' ? (
+        <div className="relative w-full">
+          <select
+            id="url-group-select-kb"
+            value={activeUrlGroupId}
+            onChange={(e) => onSetGroupId(e.target.value)}
+            className="w-full py-2 pl-3 pr-8 appearance-none border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm"
+          >
+            {urlGroups.map(group => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+          <ChevronDown
+            className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#A8ABB4] pointer-events-none"
+            aria-hidden="true"
+          />
+        </div>
+      ) : (
+        <div className="flex items-center gap-1">
+          <input
+            id="url-group-select-kb"
+            type="text"
+            value={nameInput}
+            autoFocus
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitEdit();
+              if (e.key === 'Escape') cancelEdit();
+            }}
+            placeholder="Group name"
+            className="flex-grow h-9 py-1 px-2.5 border border-[rgba(255,255,255,0.1)] bg-[#2C2C2C] text-[#E2E2E2] placeholder-[#777777] rounded-md focus:ring-1 focus:ring-white/20 focus:border-white/20 text-sm"
+          />
+          <button onClick={commitEdit} className={iconButtonClasses} aria-label="Save group name">
+            <Check size={16} />
+          </button>
+          <button onClick={cancelEdit} className={iconButtonClasses} aria-label="Cancel">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {editMode === 'none' && (
+        <div className="flex flex-wrap items-center gap-0.5 mt-2">
+          {onCreateGroup && (
+            <button onClick={() => startEdit('create')} className={iconButtonClasses} aria-label="New group" title="New group">
+              <FolderPlus size={16} />
+            </button>
+          )}
+          {onRenameGroup && (
+            <button onClick={() => startEdit('rename')} disabled={!activeGroup} className={iconButtonClasses} aria-label="Rename group" title="Rename group">
+              <Pencil size={16} />
+            </button>
+          )}
+          {onDuplicateGroup && (
+            <button onClick={() => activeGroup && onDuplicateGroup(activeGroup.id)} disabled={!activeGroup} className={iconButtonClasses} aria-label="Duplicate group" title="Duplicate group">
+              <Copy size={16} />
+            </button>
+          )}
+          {onMoveGroup && (
+            <>
+              <button onClick={() => onMoveGroup(activeUrlGroupId, -1)} disabled={activeIndex <= 0} className={iconButtonClasses} aria-label="Move group up" title="Move group up">
+                <ChevronUp size={16} />
+              </button>
+              <button onClick={() => onMoveGroup(activeUrlGroupId, 1)} disabled={activeIndex === -1 || activeIndex >= urlGroups.length - 1} className={iconButtonClasses} aria-label="Move group down" title="Move group down">
+                <ChevronDown size={16} />
+              </button>
+            </>
+          )}
+          {onDeleteGroup && (
+            <button onClick={handleDelete} disabled={!activeGroup || urlGroups.length <= 1} className={`${iconButtonClasses} hover:text-[#f87171]`} aria-label="Delete group" title={urlGroups.length <= 1 ? 'The last group cannot be deleted' : 'Delete group'}>
+              <Trash2 size={16} />
+            </button>
+          )}
+          <div className="flex-grow" />
+          {onExportGroups && (
+            <button onClick={onExportGroups} className={textButtonClasses} title="Export all URL groups as JSON">
+              <Download size={14} /> Export
+            </button>
+          )}
+          {onImportGroups && (
+            <>
+              <button onClick={() => importInputRef.current?.click()} className={textButtonClasses} title="Import URL groups from a JSON export">
+                <Upload size={14} /> Import
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-[#f87171] mt-2">{error}</p>}
+      {notice && !error && <p className="text-xs text-[#A8ABB4] mt-2">{notice}</p>}
+      {importWarning && !error && <p className="text-xs text-[#fbbf24] mt-1 break-all">{importWarning}</p>}
+    </div>
+  );
+};
+
+export default UrlGroupPicker;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, ChatSession, MessageSender } from '../types';
+
+const MAX_TITLE_LENGTH = 60;
+
+export const UNTITLED_SESSION_TITLE = 'New chat';
+
+export const createSession = (groupId: string, messages: ChatMessage[] = [], title = ''): ChatSession => {
+  const now = new Date();
+  return {
+    id: `session-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    groupId,
+    title,
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// First line of the question, cut at a word boundary.
+export const deriveSessionTitle = (question: string): string => {
+  const firstLine = question.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+  const cut = firstLine.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+};
+
+export const getSessionTitle = (session: ChatSession): string => session.title || UNTITLED_SESSION_TITLE;
+
+export const hasQuestions = (session: ChatSession): boolean =>
+  session.messages.some(msg => msg.sender === MessageSender.USER);
+
+// Applies a message update and keeps the session metadata in step: the first question titles an
+// untitled session. `updatedAt` only moves when the update settles something (a question, a
+// finished answer, an edit or a deletion), not for placeholders and streamed chunks, so the history
+// list does not re-sort while an answer streams in.
+export const applySessionMessages = (session: ChatSession, messages: ChatMessage[]): ChatSession => {
+  const firstQuestion = session.title ? undefined : messages.find(msg => msg.sender === MessageSender.USER);
+  const previous = new Set(session.messages);
+  const changed = messages.filter(msg => !previous.has(msg));
+  const isInterim = changed.length > 0 && changed.every(msg => msg.isLoading || msg.isStreaming);
+  return {
+    ...session,
+    messages,
+    title: firstQuestion ? deriveSessionTitle(firstQuestion.text) : session.title,
+    updatedAt: isInterim ? session.updatedAt : new Date(),
+  };
+};
+
+// Most recently used first.
+export const getGroupSessions = (sessions: ChatSession[], groupId: string): ChatSession[] =>
+  sessions
+    .filter(session => session.groupId === groupId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+export const sessionMatchesQuery = (session: ChatSession, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return getSessionTitle(session).toLowerCase().includes(needle) ||
+    session.messages.some(msg => msg.sender !== MessageSender.SYSTEM && msg.text.toLowerCase().includes(needle));
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, FileSource, URLGroup } from '../types';
+
+// One side of a comparison: a URL group answered by a model. Group targets use the configured
+// model; model targets ask the active group with a different model.
+export interface CompareTarget {
+  id: string;
+  label: string;
+  groupId: string;
+  model?: string; // Overrides the configured model
+}
+
+export interface ComparisonColumn {
+  target: CompareTarget;
+  urls: string[];
+  files?: FileSource[];
+  message: ChatMessage; // The answer (or error) as it streams in
+}
+
+// The same question asked of several targets at once. Lives outside the sessions until one
+// answer is kept.
+export interface Comparison {
+  question: string;
+  columns: ComparisonColumn[];
+}
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+export const buildCompareTargets = (
+  urlGroups: URLGroup[],
+  activeGroupId: string,
+  modelOptions: { value: string; label: string }[]
+): CompareTarget[] => [
+  ...urlGroups
+    .filter(group => group.urls.length > 0)
+    .map(group => ({ id: `group:${group.id}`, label: group.name, groupId: group.id })),
+  ...modelOptions.map(option => ({ id: `model:${option.value}`, label: option.label, groupId: activeGroupId, model: option.value })),
+];
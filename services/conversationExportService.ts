@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, MessageSender, URLGroup } from '../types';
+import { escapeHtml, renderMarkdown } from './markdownRenderer';
+import {
+  SourceEntry,
+  buildSourceList,
+  formatHtmlCitationMarker,
+  formatRetrievalStatus,
+  insertCitationMarkers,
+  isSuccessfulSource,
+} from './messageSources';
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json';
+
+// System notices (welcome text, errors) are app chrome rather than part of the Q&A, so the
+// document formats leave them out. The JSON export keeps them.
+const getExportableMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.filter(msg => msg.sender !== MessageSender.SYSTEM && !msg.isLoading && !msg.isStreaming && msg.text);
+
+const formatTimestamp = (date: Date): string => date.toLocaleString();
+
+const senderLabel = (sender: MessageSender): string => sender === MessageSender.USER ? 'You' : 'Assistant';
+
+export const getConversationFileName = (group: URLGroup, format: ConversationExportFormat): string => {
+  const dateStamp = new Date().toISOString().slice(0, 10);
+  const extension = format === 'markdown' ? 'md' : format;
+  const slug = group.id.replace(/[^\w-]+/g, '-') || 'conversation';
+  return `${slug}-conversation-${dateStamp}.${extension}`;
+};
+
+// Sources become footnotes labelled "<answer>-<source>" so labels stay unique across the document.
+// Cited sources are referenced inline; the rest are referenced after the answer so that renderers
+// which drop unreferenced footnotes still list every retrieved URL.
+const renderMarkdownAnswer = (message: ChatMessage, answerNumber: number): string => {
+  const sources = buildSourceList(message);
+  const label = (n: number) => `[^${answerNumber}-${n}]`;
+  let text = message.citations
+    ? insertCitationMarkers(message.text, message.citations, sources, label)
+    : message.text;
+
+  const uncited = sources
+    .map((_, index) => index + 1)
+    .filter(n => !text.includes(label(n)));
+  if (uncited.length > 0) {
+    text += `\n\n_Retrieved:_ ${uncited.map(label).join(' ')}`;
+  }
+  const footnotes = sources.map((source, index) =>
+    `${label(index + 1)}: ${source.isFile ? source.url : `<${source.url}>`} (${formatRetrievalStatus(source.status)})`
+  );
+  return footnotes.length > 0 ? `${text}\n\n${footnotes.join('\n')}` : text;
+};
+
+export const serializeConversationMarkdown = (group: URLGroup, messages: ChatMessage[]): string => {
+  const sections: string[] = [
+    `# ${group.name}`,
+    `_Exported ${formatTimestamp(new Date())} · ${group.urls.length} URL${group.urls.length === 1 ? '' : 's'} in group_`,
+  ];
+  let answerNumber = 0;
+  for (const message of getExportableMessages(messages)) {
+    const heading = `### ${senderLabel(message.sender)} · ${formatTimestamp(message.timestamp)}`;
+    const body = message.sender === MessageSender.MODEL
+      ? renderMarkdownAnswer(message, ++answerNumber)
+      : message.text;
+    sections.push('---', heading, body);
+  }
+  return `${sections.join('\n\n')}\n`;
+};
+
+const renderHtmlSources = (message: ChatMessage, sources: SourceEntry[]): string => {
+  if (sources.length === 0) return '';
+  const showNumbers = !!message.citations && message.citations.length > 0;
+  const items = sources.map((source, index) => {
+    const n = index + 1;
+    const badgeClass = isSuccessfulSource(source) ? 'badge' : 'badge badge-failed';
+    return `<li id="source-${escapeHtml(message.id)}-${n}">` +
+      (showNumbers ? `<span class="source-number">[${n}]</span>` : '') +
+      (source.isFile
+        ? `<span>${escapeHtml(source.url)}</span>`
+        : `<a href="${escapeHtml(source.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(source.url)}</a>`) +
+      `<span class="${badgeClass}">${escapeHtml(formatRetrievalStatus(source.status))}</span></li>`;
+  }).join('\n');
+  return `<div class="sources"><h4>Context URLs Retrieved:</h4><ul>\n${items}\n</ul></div>`;
+};
+
+const renderHtmlMessage = (message: ChatMessage): string => {
+  const isUser = message.sender === MessageSender.USER;
+  let content: string;
+  let sourcesHtml = '';
+  if (isUser) {
+    content = `<div class="user-text">${escapeHtml(message.text)}</div>`;
+  } else {
+    const sources = buildSourceList(message);
+    const citations = message.citations;
+    const html = renderMarkdown(message.text, citations && {
+      insert: (text, formatMarker) => insertCitationMarkers(text, citations, sources, formatMarker),
+      formatMarker: formatHtmlCitationMarker(message.id),
+    });
+    content = `<div class="prose">${html}</div>`;
+    sourcesHtml = renderHtmlSources(message, sources);
+  }
+  return `<div class="message ${isUser ? 'message-user' : 'message-model'}">` +
+    `<div class="avatar">${isUser ? 'U' : 'AI'}</div>` +
+    `<div class="bubble"><div class="meta">${senderLabel(message.sender)} · ${escapeHtml(formatTimestamp(message.timestamp))}</div>` +
+    `${content}${sourcesHtml}</div></div>`;
+};
+
+// Mirrors index.css, the MessageItem bubble classes and the atom-one-dark highlight.js theme so the
+// file renders the same way without network access.
+const EXPORT_STYLES = `
+body { margin: 0; padding: 2rem 1rem; background: #121212; color: #E2E2E2; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', sans-serif; font-size: 14px; }
+main { max-width: 56rem; margin: 0 auto; }
+header { margin-bottom: 1.5rem; border-bottom: 1px solid rgba(255,255,255,0.05); padding-bottom: 1rem; }
+header h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+header p { margin: 0; color: #A8ABB4; font-size: 0.75rem; }
+.message { display: flex; align-items: flex-start; gap: 0.5rem; margin-bottom: 1rem; }
+.message-user { flex-direction: row-reverse; }
+.avatar { width: 2rem; height: 2rem; border-radius: 9999px; flex-shrink: 0; display: flex; align-items: center; justify-content: center; font-size: 0.875rem; font-weight: 600; }
+.message-user .avatar { background: rgba(255,255,255,0.12); color: #fff; }
+.message-model .avatar { background: #777777; color: #E2E2E2; }
+.bubble { padding: 0.75rem; border-radius: 0.5rem; max-width: 85%; min-width: 0; box-shadow: 0 1px 3px rgba(0,0,0,0.3); }
+.message-user .bubble { background: rgba(255,255,255,0.12); color: #fff; border-bottom-right-radius: 0; }
+.message-model .bubble { background: rgba(119,119,119,0.10); border-top: 1px solid rgba(255,255,255,0.04); border-bottom-left-radius: 0; }
+.meta { font-size: 0.6875rem; color: #777777; margin-bottom: 0.375rem; }
+.user-text { white-space: pre-wrap; }
+.prose h1 { font-size: 1.5em; margin: 0.8em 0 0.4em; }
+.prose h2 { font-size: 1.25em; margin: 0.7em 0 0.35em; }
+.prose h3 { font-size: 1.1em; margin: 0.6em 0 0.3em; }
+.prose p { margin: 0 0 0.4em; line-height: 1.5; }
+.prose ul, .prose ol { margin: 0 0 0.4em 1.25em; padding: 0; }
+.prose li { margin-bottom: 0.2em; }
+.prose code { padding: 0.2em 0.4em; border-radius: 3px; font-family: 'Courier New', Courier, monospace; font-size: 0.9em; background: rgba(255,255,255,0.08); overflow-wrap: anywhere; }
+.prose pre { padding: 0.8em; margin: 0 0 0.5em; overflow-x: auto; }
+.prose pre code { background: transparent; padding: 0; overflow-wrap: normal; }
+.prose blockquote { border-left: 3px solid #4A4A4A; margin: 0 0 0.5em; padding-left: 1em; color: #A8ABB4; }
+.prose a { color: #79B8FF; }
+.prose .citation-marker { font-size: 0.7em; line-height: 0; margin-left: 1px; }
+.prose .citation-marker a { text-decoration: none; }
+.prose .code-block { margin-bottom: 0.5em; border-radius: 4px; overflow: hidden; background: #282c34; }
+.prose .code-block-header { padding: 0.25em 0.8em; background: #21252b; font-size: 0.75em; color: #A8ABB4; }
+.prose .code-block-copy { display: none; }
+.prose .code-block pre { margin: 0; background: #282c34; }
+.prose .code-block code { counter-reset: code-line; }
+.prose .code-line::before { counter-increment: code-line; content: counter(code-line); display: inline-block; width: 2.5em; margin-right: 0.8em; text-align: right; color: #5c6370; user-select: none; }
+.prose .table-wrapper { overflow-x: auto; margin-bottom: 0.5em; }
+.prose table { border-collapse: collapse; font-size: 0.9em; }
+.prose th, .prose td { border: 1px solid #4A4A4A; padding: 0.3em 0.6em; text-align: left; }
+.prose th { background: #2C2C2C; }
+.hljs { color: #abb2bf; }
+.hljs-comment, .hljs-quote { color: #5c6370; font-style: italic; }
+.hljs-doctag, .hljs-keyword, .hljs-formula { color: #c678dd; }
+.hljs-section, .hljs-name, .hljs-selector-tag, .hljs-deletion, .hljs-subst { color: #e06c75; }
+.hljs-literal { color: #56b6c2; }
+.hljs-string, .hljs-regexp, .hljs-addition, .hljs-attribute, .hljs-meta .hljs-string { color: #98c379; }
+.hljs-attr, .hljs-variable, .hljs-template-variable, .hljs-type, .hljs-selector-class, .hljs-selector-attr, .hljs-selector-pseudo, .hljs-number { color: #d19a66; }
+.hljs-symbol, .hljs-bullet, .hljs-link, .hljs-meta, .hljs-selector-id, .hljs-title { color: #61aeee; }
+.hljs-built_in, .hljs-title.class_, .hljs-class .hljs-title { color: #e6c07b; }
+.sources { margin-top: 0.625rem; padding-top: 0.625rem; border-top: 1px solid rgba(255,255,255,0.1); }
+.sources h4 { margin: 0 0 0.25rem; font-size: 0.75rem; color: #A8ABB4; }
+.sources ul { list-style: none; margin: 0; padding: 0; }
+.sources li { font-size: 11px; color: #A8ABB4; margin-bottom: 0.125rem; }
+.sources li:target { background: rgba(121,184,255,0.2); }
+.sources a { color: #79B8FF; text-decoration: none; word-break: break-all; }
+.sources a:hover { text-decoration: underline; }
+.source-number { margin-right: 0.25rem; color: #777777; }
+.badge { margin-left: 0.375rem; padding: 0.125rem 0.25rem; border-radius: 2px; font-size: 9px; background: rgba(255,255,255,0.12); color: #fff; }
+.badge-failed { background: rgba(71,85,105,0.3); color: #94a3b8; }
+`;
+
+export const serializeConversationHtml = (group: URLGroup, messages: ChatMessage[]): string => {
+  const title = escapeHtml(group.name);
+  const body = getExportableMessages(messages).map(renderHtmlMessage).join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title} · Documentation Browser</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<header><h1>${title}</h1><p>Exported ${escapeHtml(formatTimestamp(new Date()))} · ${group.urls.length} URL${group.urls.length === 1 ? '' : 's'} in group</p></header>
+${body}
+</main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CachedPage } from '../types';
+
+// File contents are too large for localStorage, so they live in IndexedDB keyed by FileSource.id.
+// Group metadata (names, sizes) stays in localStorage with the rest of the group. The page cache of
+// the local retrieval mode shares the database, keyed by URL.
+const DB_NAME = 'docBrowser';
+const DB_VERSION = 2;
+const FILE_STORE = 'files';
+const PAGE_STORE = 'pages';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const storeName of [FILE_STORE, PAGE_STORE]) {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user re-enables storage.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operate(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveFileContent = async (id: string, content: Blob): Promise<void> => {
+  await runRequest(FILE_STORE, 'readwrite', store => store.put(content, id));
+};
+
+export const loadFileContent = (id: string): Promise<Blob | undefined> =>
+  runRequest<Blob | undefined>(FILE_STORE, 'readonly', store => store.get(id));
+
+export const deleteFileContent = async (id: string): Promise<void> => {
+  try {
+    await runRequest(FILE_STORE, 'readwrite', store => store.delete(id));
+  } catch (e) {
+    console.warn(`Failed to delete stored file ${id}:`, e);
+  }
+};
+
+export const saveCachedPage = async (page: CachedPage): Promise<void> => {
+  await runRequest(PAGE_STORE, 'readwrite', store => store.put(page, page.url));
+};
+
+export const loadCachedPage = (url: string): Promise<CachedPage | undefined> =>
+  runRequest<CachedPage | undefined>(PAGE_STORE, 'readonly', store => store.get(url));
+
+export const deleteCachedPage = async (url: string): Promise<void> => {
+  try {
+    await runRequest(PAGE_STORE, 'readwrite', store => store.delete(url));
+  } catch (e) {
+    console.warn(`Failed to delete cached page ${url}:`, e);
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SafetyRating } from '../types';
+
+export interface FinishReasonDescription {
+  title: string;
+  hint: string;
+  canContinue: boolean; // Generation can pick up where it stopped
+}
+
+// Explains why an answer ended early. Normal completions (and unknown-yet-harmless reasons) return null.
+export const describeFinishReason = (finishReason?: string): FinishReasonDescription | null => {
+  switch (finishReason) {
+    case undefined:
+    case 'STOP':
+    case 'FINISH_REASON_UNSPECIFIED':
+      return null;
+    case 'MAX_TOKENS':
+      return { title: 'Answer truncated', hint: 'The answer reached the output token limit. Continue it, or raise the limit in the model settings.', canContinue: true };
+    case 'SAFETY':
+    case 'IMAGE_SAFETY':
+      return { title: 'Stopped by safety filters', hint: 'The rest of the answer was withheld. Rephrase the question or adjust the safety thresholds in the model settings.', canContinue: false };
+    case 'RECITATION':
+      return { title: 'Stopped to avoid recitation', hint: 'The answer was too close to text from its sources. Ask for a summary instead of a quote.', canContinue: false };
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return { title: 'Stopped by content policy', hint: 'The answer contained terms or personal information the model is not allowed to output.', canContinue: false };
+    case 'LANGUAGE':
+      return { title: 'Unsupported language', hint: 'The answer would be in a language the model does not support.', canContinue: false };
+    default:
+      return { title: 'Generation ended early', hint: `The model stopped with reason ${finishReason}.`, canContinue: false };
+  }
+};
+
+const toSentenceCase = (enumValue: string): string => {
+  const words = enumValue.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> "Dangerous content"
+export const formatHarmCategory = (category: string): string => toSentenceCase(category.replace(/^HARM_CATEGORY_/, ''));
+
+// PROHIBITED_CONTENT -> "Prohibited content"
+export const formatBlockReason = (reason: string): string => toSentenceCase(reason);
+
+// Categories that blocked content, or the riskiest ratings when none is marked as blocking.
+export const describeSafetyRatings = (safetyRatings: SafetyRating[] = []): string[] => {
+  const blocked = safetyRatings.filter(rating => rating.blocked);
+  const shown = blocked.length > 0 ? blocked : safetyRatings;
+  return Array.from(new Set(shown.map(rating =>
+    `${formatHarmCategory(rating.category)} (${rating.probability.toLowerCase()} risk)`
+  )));
+};
@@ -4,21 +4,31 @@
 */
 
 
-import { GoogleGenAI, GenerateContentResponse, Tool, HarmCategory, HarmBlockThreshold, Content } from "@google/genai";
-import { UrlContextMetadataItem } from '../types';
+import { ApiError, GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Tool, HarmCategory, HarmBlockThreshold, Content, Part } from "@google/genai";
+import { ChatMessage, Citation, FinishDetails, GenerationSettings, SafetyRating, TokenUsage, UrlContextMetadataItem } from '../types';
+import { DEFAULT_GENERATION_SETTINGS } from './generationSettings';
+import {
+  ModelProvider,
+  ModelResponse,
+  SUGGESTIONS_JSON_SCHEMA,
+  ContextFile,
+  buildSuggestionsPrompt,
+  parseSuggestions,
+  selectHistoryTurns,
+} from './modelProvider';
+import { countRelevantUrls, rankUrlsForQuery } from './urlRanking';
+import { sumUsage } from './usageService';
+import { AuthError, ModelError, RateLimitError, SafetyBlockedError, errorFromStatus, toModelError } from './modelErrors';
 
 // IMPORTANT: The API key MUST be set as an environment variable `process.env.API_KEY`
 const API_KEY = process.env.API_KEY;
 
 let ai: GoogleGenAI;
 
-// Model supporting URL context, consistent with user examples and documentation.
-const MODEL_NAME = "gemini-2.5-flash"; 
-
 const getAiInstance = (): GoogleGenAI => {
   if (!API_KEY) {
     console.error("API_KEY is not set in environment variables. Please set process.env.API_KEY.");
-    throw new Error("Gemini API Key not configured. Set process.env.API_KEY.");
+    throw new AuthError("Gemini API Key not configured. Set process.env.API_KEY.");
   }
   if (!ai) {
     ai = new GoogleGenAI({ apiKey: API_KEY });
@@ -26,125 +36,383 @@ const getAiInstance = (): GoogleGenAI => {
   return ai;
 };
 
-const safetySettings = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-];
+// Translates user settings into the request config shared by every call.
+const buildGenerationConfig = (settings: GenerationSettings): GenerateContentConfig => {
+  const config: GenerateContentConfig = {
+    safetySettings: Object.entries(settings.safetyThresholds).map(([category, threshold]) => ({
+      category: category as HarmCategory,
+      threshold: threshold as HarmBlockThreshold,
+    })),
+  };
+  if (settings.temperature !== undefined) config.temperature = settings.temperature;
+  if (settings.maxOutputTokens !== undefined) config.maxOutputTokens = settings.maxOutputTokens;
+  if (settings.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+  if (settings.systemInstruction.trim()) config.systemInstruction = settings.systemInstruction.trim();
+  return config;
+};
 
-interface GeminiResponse {
-  text: string;
-  urlContextMetadata?: UrlContextMetadataItem[];
-}
+type GeminiResponse = ModelResponse;
 
-export const generateContentWithUrlContext = async (
-  prompt: string,
-  urls: string[]
-): Promise<GeminiResponse> => {
-  const currentAi = getAiInstance();
-  
+const buildHistoryContents = (history: ChatMessage[]): Content[] => {
+  return selectHistoryTurns(history).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+};
+
+// Local files go in as inline parts ahead of the question: text formats as text, PDFs as inline
+// data, each introduced by its file name so the model can refer to it.
+const buildFileParts = (files: ContextFile[]): Part[] =>
+  files.flatMap((file): Part[] => file.data !== undefined
+    ? [{ text: `--- File: ${file.name} ---` }, { inlineData: { mimeType: file.mimeType, data: file.data } }]
+    : [{ text: `--- File: ${file.name} ---\n${file.text || ''}` }]
+  );
+
+const buildUrlContextContents = (prompt: string, urls: string[], history: ChatMessage[], files: ContextFile[] = []): Content[] => {
   let fullPrompt = prompt;
   if (urls.length > 0) {
     const urlList = urls.join('\n');
     fullPrompt = `${prompt}\n\nRelevant URLs for context:\n${urlList}`;
   }
+  if (files.length > 0) {
+    fullPrompt += `\n\nAttached files for context: ${files.map(file => file.name).join(', ')}`;
+  }
+
+  return [
+    ...buildHistoryContents(history),
+    { role: "user", parts: [...buildFileParts(files), { text: fullPrompt }] },
+  ];
+};
+
+const extractUrlContextMetadata = (response: GenerateContentResponse): UrlContextMetadataItem[] | undefined => {
+  const candidate = response.candidates?.[0];
+
+  if (candidate && candidate.urlContextMetadata && candidate.urlContextMetadata.urlMetadata) {
+    // Assuming SDK converts snake_case to camelCase, UrlContextMetadataItem type (now camelCase) should match items in urlMetadata.
+    return candidate.urlContextMetadata.urlMetadata as UrlContextMetadataItem[];
+  } else if (candidate && candidate.urlContextMetadata) {
+    // This case implies urlContextMetadata exists but urlMetadata field might be missing or empty.
+    console.warn("candidate.urlContextMetadata is present, but 'urlMetadata' field is missing or empty:", JSON.stringify(candidate.urlContextMetadata, null, 2));
+  }
+  return undefined;
+};
+
+// Converts groundingSupports into citations keyed by segment text. Segment offsets are byte-based
+// and relative to a single (possibly streamed) part, so the text itself is what gets matched later.
+const extractCitations = (response: GenerateContentResponse): Citation[] => {
+  const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = groundingMetadata?.groundingChunks || [];
+  const citations: Citation[] = [];
+  for (const support of groundingMetadata?.groundingSupports || []) {
+    const segmentText = support.segment?.text?.trim();
+    const sourceUrls = (support.groundingChunkIndices || [])
+      .map(index => chunks[index]?.web?.uri || chunks[index]?.retrievedContext?.uri)
+      .filter((uri): uri is string => !!uri);
+    if (segmentText && sourceUrls.length > 0) {
+      citations.push({ segmentText, sourceUrls: Array.from(new Set(sourceUrls)) });
+    }
+  }
+  return citations;
+};
+
+const toGenerationError = (error: unknown): ModelError => {
+  console.error("Error calling Gemini API:", error);
+  if (error instanceof ModelError) return error;
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes("API key not valid")) {
+    return new AuthError("Invalid API Key. Please check your GEMINI_API_KEY environment variable.");
+  }
+  if (error instanceof ApiError) {
+    if (error.status === 429 || /quota|RESOURCE_EXHAUSTED/i.test(message)) {
+      return new RateLimitError("API quota or rate limit exceeded. Please check your Gemini API quota.");
+    }
+    return errorFromStatus(error.status, `Gemini API Error: ${message}`);
+  }
+  return toModelError(error, 'Failed to get response from AI');
+};
+
+// Finish reasons that mean the answer was withheld rather than completed.
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']);
+
+// Reason the prompt or the answer was blocked, if it was.
+const getBlockReason = (response: GenerateContentResponse): string | undefined => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return response.promptFeedback?.blockReason ||
+    (finishReason && BLOCKING_FINISH_REASONS.has(finishReason) ? finishReason : undefined);
+};
+
+const NOTABLE_PROBABILITIES = new Set(['MEDIUM', 'HIGH']);
+
+// Finish and block reasons plus the safety ratings worth showing: those that blocked content or
+// flagged a medium/high risk. Prompt ratings are included because they explain prompt blocks.
+const extractFinishDetails = (response: GenerateContentResponse): FinishDetails => {
+  const candidate = response.candidates?.[0];
+  const safetyRatings: SafetyRating[] = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])]
+    .filter(rating => rating.blocked || NOTABLE_PROBABILITIES.has(rating.probability || ''))
+    .map(rating => ({
+      category: rating.category || 'HARM_CATEGORY_UNSPECIFIED',
+      probability: rating.probability || 'HARM_PROBABILITY_UNSPECIFIED',
+      blocked: rating.blocked || undefined,
+    }));
+  return {
+    finishReason: candidate?.finishReason,
+    blockReason: response.promptFeedback?.blockReason,
+    safetyRatings: safetyRatings.length > 0 ? safetyRatings : undefined,
+  };
+};
+
+// Stream chunks report details piecemeal (finish reason on the last chunk only), so later
+// chunks only override what they actually carry.
+const mergeFinishDetails = (current: FinishDetails, next: FinishDetails): FinishDetails => ({
+  finishReason: next.finishReason ?? current.finishReason,
+  blockReason: next.blockReason ?? current.blockReason,
+  safetyRatings: next.safetyRatings ?? current.safetyRatings,
+});
+
+const toSafetyBlockedError = (blockReason: string, details: FinishDetails): SafetyBlockedError =>
+  new SafetyBlockedError(`The response was blocked by the model's safety filters (${blockReason}).`, details);
+
+// The urlContext tool fetches at most this many URLs per request. Larger groups are
+// ranked against the question and split into batches (see planUrlBatches).
+export const URL_CONTEXT_URL_LIMIT = 20;
+// Upper bound on parallel urlContext requests fanned out for a single question.
+const MAX_URL_BATCHES = 3;
+
+// Splits a URL set into urlContext-sized batches. Small sets are sent as-is. For larger sets only
+// the relevant URLs fan out to extra batches; if few URLs match, a single batch of the best
+// candidates (padded with the remaining URLs in group order) is used.
+export const planUrlBatches = (query: string, urls: string[]): string[][] => {
+  if (urls.length <= URL_CONTEXT_URL_LIMIT) return [urls];
+
+  const relevantCount = countRelevantUrls(query, urls);
+  const ranked = rankUrlsForQuery(query, urls);
+  const selectedCount = Math.min(
+    Math.max(relevantCount, URL_CONTEXT_URL_LIMIT),
+    URL_CONTEXT_URL_LIMIT * MAX_URL_BATCHES
+  );
+
+  const batches: string[][] = [];
+  for (let i = 0; i < selectedCount; i += URL_CONTEXT_URL_LIMIT) {
+    batches.push(ranked.slice(i, Math.min(i + URL_CONTEXT_URL_LIMIT, selectedCount)));
+  }
+  return batches;
+};
+
+// While streaming, every chunk carries the running totals, so the last one reported wins.
+const extractUsage = (response: GenerateContentResponse, model: string): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    model,
+    promptTokens: metadata.promptTokenCount || 0,
+    candidatesTokens: metadata.candidatesTokenCount || 0,
+    toolUseTokens: metadata.toolUsePromptTokenCount || 0,
+    thinkingTokens: metadata.thoughtsTokenCount || 0,
+    totalTokens: metadata.totalTokenCount || 0,
+  };
+};
+
+// Combines metadata from several responses; a successful retrieval wins over a failed one.
+const mergeUrlContextMetadata = (responses: GeminiResponse[]): UrlContextMetadataItem[] | undefined => {
+  const byUrl = new Map<string, UrlContextMetadataItem>();
+  for (const item of responses.flatMap(response => response.urlContextMetadata || [])) {
+    const existing = byUrl.get(item.retrievedUrl);
+    if (!existing || item.urlRetrievalStatus === 'URL_RETRIEVAL_STATUS_SUCCESS') {
+      byUrl.set(item.retrievedUrl, item);
+    }
+  }
+  return byUrl.size > 0 ? Array.from(byUrl.values()) : undefined;
+};
+
+const buildSynthesisContents = (prompt: string, partialAnswers: string[], history: ChatMessage[]): Content[] => {
+  const sections = partialAnswers
+    .map((answer, index) => `--- Draft answer ${index + 1} ---\n${answer}`)
+    .join('\n\n');
+  const synthesisPrompt = `${prompt}
+
+The documentation for this question was too large to read at once, so it was split into parts and each part was answered separately. Combine the draft answers below into a single, coherent answer to the question above. Prefer specific, well-supported details, drop statements a draft marks as not covered by its documents, and do not mention drafts or parts in your answer.
 
+${sections}`;
+  return [
+    ...buildHistoryContents(history),
+    { role: "user", parts: [{ text: synthesisPrompt }] },
+  ];
+};
+
+const requestUrlContextAnswer = async (
+  prompt: string,
+  urls: string[],
+  history: ChatMessage[],
+  settings: GenerationSettings,
+  abortSignal?: AbortSignal,
+  files: ContextFile[] = []
+): Promise<GeminiResponse> => {
+  const currentAi = getAiInstance();
   const tools: Tool[] = [{ urlContext: {} }];
-  const contents: Content[] = [{ role: "user", parts: [{ text: fullPrompt }] }];
+  const response: GenerateContentResponse = await currentAi.models.generateContent({
+    model: settings.model,
+    contents: buildUrlContextContents(prompt, urls, history, files),
+    config: { 
+      ...buildGenerationConfig(settings),
+      tools: tools,
+      abortSignal: abortSignal,
+    },
+  });
+
+  const blockReason = getBlockReason(response);
+  const finishDetails = extractFinishDetails(response);
+  if (!response.text && blockReason) {
+    throw toSafetyBlockedError(blockReason, finishDetails);
+  }
+  return {
+    text: response.text || '',
+    urlContextMetadata: extractUrlContextMetadata(response),
+    citations: extractCitations(response),
+    usage: extractUsage(response, settings.model),
+    ...finishDetails,
+  };
+};
+
+// Answers each batch in parallel. Batches that fail are skipped unless all of them fail.
+// Every batch gets the local files, since any part of the answer may depend on them.
+const requestBatchAnswers = async (
+  prompt: string,
+  batches: string[][],
+  history: ChatMessage[],
+  settings: GenerationSettings,
+  abortSignal?: AbortSignal,
+  files: ContextFile[] = []
+): Promise<GeminiResponse[]> => {
+  const results = await Promise.allSettled(
+    batches.map(batch => requestUrlContextAnswer(prompt, batch, history, settings, abortSignal, files))
+  );
+  const answers = results
+    .filter((result): result is PromiseFulfilledResult<GeminiResponse> => result.status === 'fulfilled')
+    .map(result => result.value);
+  if (answers.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return answers;
+};
+
+// Streams the answer: `onChunk` receives the accumulated text after every chunk.
+// URL context metadata is only reliable on the final chunks, so it is returned once the stream ends.
+// Aborting `abortSignal` stops the stream and resolves with the text received so far.
+// When the URLs need several batches, the batch answers are gathered first and only the
+// final merged answer is streamed.
+export const generateContentStreamWithUrlContext = async (
+  prompt: string,
+  urls: string[],
+  history: ChatMessage[],
+  onChunk: (accumulatedText: string) => void,
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  abortSignal?: AbortSignal,
+  files: ContextFile[] = []
+): Promise<GeminiResponse> => {
+  const currentAi = getAiInstance();
+  const batches = planUrlBatches(prompt, urls);
+
+  let text = '';
+  let urlContextMetadata: UrlContextMetadataItem[] | undefined = undefined;
+  const citations: Citation[] = [];
+  let finishDetails: FinishDetails = {};
+  // Batch answers gathered before the synthesis stream count towards the answer's usage.
+  let batchUsage: TokenUsage | undefined;
+  let streamUsage: TokenUsage | undefined;
 
   try {
-    const response: GenerateContentResponse = await currentAi.models.generateContent({
-      model: MODEL_NAME,
+    let contents: Content[];
+    let tools: Tool[] | undefined;
+    if (batches.length === 1) {
+      contents = buildUrlContextContents(prompt, batches[0], history, files);
+      // Without URLs (e.g. local retrieval, where the page passages arrive as files) there is nothing to fetch.
+      tools = batches[0].length > 0 ? [{ urlContext: {} }] : undefined;
+    } else {
+      const partials = await requestBatchAnswers(prompt, batches, history, settings, abortSignal, files);
+      urlContextMetadata = mergeUrlContextMetadata(partials);
+      if (partials.length === 1) {
+        onChunk(partials[0].text);
+        return { ...partials[0], urlContextMetadata };
+      }
+      batchUsage = sumUsage(partials.map(partial => partial.usage));
+      contents = buildSynthesisContents(prompt, partials.map(p => p.text), history);
+    }
+
+    const stream = await currentAi.models.generateContentStream({
+      model: settings.model,
       contents: contents,
-      config: { 
+      config: {
+        ...buildGenerationConfig(settings),
         tools: tools,
-        safetySettings: safetySettings,
+        abortSignal: abortSignal,
       },
     });
 
-    const text = response.text;
-    const candidate = response.candidates?.[0];
-    let extractedUrlContextMetadata: UrlContextMetadataItem[] | undefined = undefined;
-
-    if (candidate && candidate.urlContextMetadata && candidate.urlContextMetadata.urlMetadata) {
-      console.log("Raw candidate.urlContextMetadata.urlMetadata from API/SDK:", JSON.stringify(candidate.urlContextMetadata.urlMetadata, null, 2));
-      // Assuming SDK converts snake_case to camelCase, UrlContextMetadataItem type (now camelCase) should match items in urlMetadata.
-      extractedUrlContextMetadata = candidate.urlContextMetadata.urlMetadata as UrlContextMetadataItem[];
-    } else if (candidate && candidate.urlContextMetadata) {
-      // This case implies urlContextMetadata exists but urlMetadata field might be missing or empty.
-      console.warn("candidate.urlContextMetadata is present, but 'urlMetadata' field is missing or empty:", JSON.stringify(candidate.urlContextMetadata, null, 2));
-    } else {
-      // console.log("No urlContextMetadata found in the Gemini API response candidate.");
+    let blockReason: string | undefined;
+    for await (const chunk of stream) {
+      if (abortSignal?.aborted) break;
+      blockReason = getBlockReason(chunk) ?? blockReason;
+      finishDetails = mergeFinishDetails(finishDetails, extractFinishDetails(chunk));
+      streamUsage = extractUsage(chunk, settings.model) ?? streamUsage;
+      if (chunk.text) {
+        text += chunk.text;
+        onChunk(text);
+      }
+      if (tools) {
+        urlContextMetadata = extractUrlContextMetadata(chunk) ?? urlContextMetadata;
+        citations.push(...extractCitations(chunk));
+      }
+    }
+
+    if (!text && blockReason && !abortSignal?.aborted) {
+      throw toSafetyBlockedError(blockReason, finishDetails);
     }
-    
-    return { text, urlContextMetadata: extractedUrlContextMetadata };
+    return { text, urlContextMetadata, citations, usage: sumUsage([batchUsage, streamUsage]), ...finishDetails };
 
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-      const googleError = error as any; 
-      if (googleError.message && googleError.message.includes("API key not valid")) {
-         throw new Error("Invalid API Key. Please check your GEMINI_API_KEY environment variable.");
-      }
-      if (googleError.message && googleError.message.includes("quota")) {
-        throw new Error("API quota exceeded. Please check your Gemini API quota.");
-      }
-      if (googleError.type === 'GoogleGenAIError' && googleError.message) {
-        throw new Error(`Gemini API Error: ${googleError.message}`);
-      }
-      throw new Error(`Failed to get response from AI: ${error.message}`);
+    if (abortSignal?.aborted) {
+      return { text, urlContextMetadata, citations, usage: sumUsage([batchUsage, streamUsage]) };
     }
-    throw new Error("Failed to get response from AI due to an unknown error.");
+    throw toGenerationError(error);
   }
 };
 
-// This function now aims to get a JSON array of string suggestions.
-export const getInitialSuggestions = async (urls: string[]): Promise<GeminiResponse> => {
+// Suggestions use structured output, which cannot be combined with tools, so the model only sees
+// the URL list rather than the page contents.
+export const getInitialSuggestions = async (
+  urls: string[],
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  history: ChatMessage[] = []
+): Promise<string[]> => {
   if (urls.length === 0) {
-    // This case should ideally be handled by the caller, but as a fallback:
-    return { text: JSON.stringify({ suggestions: ["Add some URLs to get topic suggestions."] }) };
+    return ["Add some URLs to get topic suggestions."];
   }
   const currentAi = getAiInstance();
-  const urlList = urls.join('\n');
-  
-  // Prompt updated to request JSON output of short questions
-  const promptText = `Based on the content of the following documentation URLs, provide 3-4 concise and actionable questions a developer might ask to explore these documents. These questions should be suitable as quick-start prompts. Return ONLY a JSON object with a key "suggestions" containing an array of these question strings. For example: {"suggestions": ["What are the rate limits?", "How do I get an API key?", "Explain model X."]}
-
-Relevant URLs:
-${urlList}`;
-
-  const contents: Content[] = [{ role: "user", parts: [{ text: promptText }] }];
+  const contents: Content[] = [{ role: "user", parts: [{ text: buildSuggestionsPrompt(urls, history) }] }];
 
   try {
     const response: GenerateContentResponse = await currentAi.models.generateContent({
-      model: MODEL_NAME,
+      model: settings.model,
       contents: contents,
       config: {
-        safetySettings: safetySettings,
-        responseMimeType: "application/json", // Request JSON output
+        ...buildGenerationConfig(settings),
+        responseMimeType: "application/json",
+        responseJsonSchema: SUGGESTIONS_JSON_SCHEMA,
       },
     });
-
-    const text = response.text; // This should be the JSON string
-    // urlContextMetadata is not expected here because tools cannot be used with responseMimeType: "application/json"
-    // const urlContextMetadata = response.candidates?.[0]?.urlContextMetadata?.urlMetadata as UrlContextMetadataItem[] | undefined;
-    
-    return { text /*, urlContextMetadata: undefined */ }; // Explicitly undefined or not included
-
+    return parseSuggestions(response.text);
   } catch (error) {
-    console.error("Error calling Gemini API for initial suggestions:", error);
-     if (error instanceof Error) {
-      const googleError = error as any; 
-      if (googleError.message && googleError.message.includes("API key not valid")) {
-         throw new Error("Invalid API Key for suggestions. Please check your GEMINI_API_KEY environment variable.");
-      }
-      // Check for the specific error message and re-throw a more informative one if needed
-      if (googleError.message && googleError.message.includes("Tool use with a response mime type: 'application/json' is unsupported")) {
-        throw new Error("Configuration error: Cannot use tools with JSON response type for suggestions. This should be fixed in the code.");
-      }
-      throw new Error(`Failed to get initial suggestions from AI: ${error.message}`);
+    if (error instanceof ApiError) {
+      throw toGenerationError(error);
     }
-    throw new Error("Failed to get initial suggestions from AI due to an unknown error.");
+    console.error("Error calling Gemini API for suggestions:", error);
+    throw toModelError(error, 'Failed to get suggestions from AI');
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  name: 'Gemini (URL context)',
+  isConfigured: () => !!API_KEY,
+  missingConfigurationMessage: 'Gemini API Key (process.env.API_KEY) is not configured. Please set the GEMINI_API_KEY environment variable.',
+  maxUrlsPerRequest: URL_CONTEXT_URL_LIMIT,
+  generateAnswer: generateContentStreamWithUrlContext,
+  getSuggestions: getInitialSuggestions,
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { GenerationSettings, RetrievalMode } from '../types';
+
+export const GEMINI_MODEL_OPTIONS = [
+  { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  { value: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+];
+
+export const RETRIEVAL_MODE_OPTIONS: { value: RetrievalMode; label: string }[] = [
+  { value: 'url-context', label: 'Read pages on every question' },
+  { value: 'local-cache', label: 'Local page cache (top passages only)' },
+];
+
+export const SAFETY_CATEGORY_OPTIONS = [
+  { value: HarmCategory.HARM_CATEGORY_HARASSMENT, label: 'Harassment' },
+  { value: HarmCategory.HARM_CATEGORY_HATE_SPEECH, label: 'Hate speech' },
+  { value: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, label: 'Sexually explicit' },
+  { value: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, label: 'Dangerous content' },
+];
+
+export const SAFETY_THRESHOLD_OPTIONS = [
+  { value: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE, label: 'Block low and above' },
+  { value: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, label: 'Block medium and above' },
+  { value: HarmBlockThreshold.BLOCK_ONLY_HIGH, label: 'Block only high' },
+  { value: HarmBlockThreshold.BLOCK_NONE, label: 'Block none' },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: 'gemini-2.5-flash',
+  systemInstruction: '',
+  safetyThresholds: Object.fromEntries(
+    SAFETY_CATEGORY_OPTIONS.map(option => [option.value, HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE])
+  ),
+  retrievalMode: 'url-context',
+};
+
+// Fills in anything missing from stored settings (e.g. written by an older version of the app).
+export const normalizeGenerationSettings = (stored: Partial<GenerationSettings> | null): GenerationSettings => {
+  return {
+    ...DEFAULT_GENERATION_SETTINGS,
+    ...stored,
+    safetyThresholds: { ...DEFAULT_GENERATION_SETTINGS.safetyThresholds, ...stored?.safetyThresholds },
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import DOMPurify from 'dompurify';
+
+// Model answers are derived from arbitrary third-party pages, so rendered Markdown is treated as
+// untrusted HTML: only formatting tags survive, and links are limited to safe schemes. Interactive
+// markup (copy buttons, citation links) is added by the markdown renderer after sanitizing.
+const ALLOWED_TAGS = [
+  'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'class', 'start', 'align', 'colspan', 'rowspan', 'type'];
+
+// http(s), mailto and in-page fragments only; rules out javascript:, data:, vbscript:, etc.
+const ALLOWED_URI_REGEXP = /^(?:https?:|mailto:|#)/i;
+
+// Classes are kept only when produced by the markdown renderer or highlight.js, so injected markup
+// cannot borrow the app's utility classes to restyle or overlay the page. highlight.js marks sub-scopes
+// with trailing underscores, e.g. "hljs-title function_" or "hljs-title class_ inherited__".
+const ALLOWED_CLASS_PATTERN = /^(?:hljs(?:-[\w-]+)?|[a-z]+_+|language-[\w+#-]+|code-block(?:-header|-lang)?|code-line|table-wrapper)$/;
+
+const isExternalLink = (href: string): boolean => /^https?:/i.test(href);
+
+let hooksInstalled = false;
+
+const installHooks = () => {
+  if (hooksInstalled) return;
+  DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
+    if (data.attrName !== 'class') return;
+    data.attrValue = data.attrValue
+      .split(/\s+/)
+      .filter(token => ALLOWED_CLASS_PATTERN.test(token))
+      .join(' ');
+    if (!data.attrValue) data.keepAttr = false;
+  });
+  DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName !== 'A') return;
+    const href = node.getAttribute('href') || '';
+    if (isExternalLink(href)) {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer');
+    } else {
+      node.removeAttribute('target');
+    }
+  });
+  hooksInstalled = true;
+};
+
+export const sanitizeHtml = (html: string): string => {
+  installHooks();
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR: [...ALLOWED_ATTR, 'target', 'rel'],
+    ALLOWED_URI_REGEXP,
+    ALLOW_UNKNOWN_PROTOCOLS: false,
+    ALLOW_DATA_ATTR: false,
+  });
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FileReference, FileSource, URLGroup } from '../types';
+import { ContextFile } from './modelProvider';
+import { loadFileContent } from './fileStore';
+
+// Browsers report empty or generic types for Markdown and YAML, so types come from the extension.
+// JSON and YAML cover OpenAPI/Swagger specs.
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  json: 'application/json',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+};
+
+export const ACCEPTED_FILE_EXTENSIONS = Object.keys(MIME_TYPES_BY_EXTENSION).map(extension => `.${extension}`);
+export const MAX_FILES_PER_GROUP = 10;
+// Files are sent inline, and base64 adds a third on top of the raw size. This keeps a request under
+// the ~20 MB inline payload limit with room for the prompt and history.
+export const MAX_GROUP_FILE_BYTES = 14 * 1024 * 1024;
+
+export const getFileMimeType = (fileName: string): string | undefined => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES_BY_EXTENSION[extension];
+};
+
+// Everything but PDF is sent to the model as plain text.
+export const isTextMimeType = (mimeType: string): boolean => mimeType !== 'application/pdf';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Splits dropped files into those that fit the group and a message for each one that does not.
+export const validateFiles = (files: File[], existing: FileSource[]): { accepted: File[]; errors: string[] } => {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+  let count = existing.length;
+  let totalBytes = existing.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of files) {
+    if (!getFileMimeType(file.name)) {
+      errors.push(`${file.name}: unsupported type. Use ${ACCEPTED_FILE_EXTENSIONS.join(', ')}.`);
+    } else if (existing.some(source => source.name === file.name) || accepted.some(other => other.name === file.name)) {
+      errors.push(`${file.name}: a file with this name is already in the group.`);
+    } else if (count >= MAX_FILES_PER_GROUP) {
+      errors.push(`${file.name}: a group can hold at most ${MAX_FILES_PER_GROUP} files.`);
+    } else if (totalBytes + file.size > MAX_GROUP_FILE_BYTES) {
+      errors.push(`${file.name}: the group's files would exceed ${formatFileSize(MAX_GROUP_FILE_BYTES)}.`);
+    } else {
+      accepted.push(file);
+      count++;
+      totalBytes += file.size;
+    }
+  }
+  return { accepted, errors };
+};
+
+export const createFileSource = (file: File): FileSource => ({
+  id: `file-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: file.name,
+  mimeType: getFileMimeType(file.name) || 'text/plain',
+  size: file.size,
+  addedAt: new Date(),
+});
+
+// Stored contents that no remaining group refers to (duplicated groups share file contents).
+export const findOrphanedFileIds = (removed: FileSource[], remainingGroups: URLGroup[]): string[] => {
+  const inUse = new Set(remainingGroups.flatMap(group => (group.files || []).map(file => file.id)));
+  return removed.map(file => file.id).filter(id => !inUse.has(id));
+};
+
+export const toFileReferences = (files: ContextFile[]): FileReference[] | undefined =>
+  files.length > 0 ? files.map(({ id, name, mimeType }) => ({ id, name, mimeType })) : undefined;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Reads the stored contents of a group's files for a request. Files whose content is missing
+// (for example after site data was cleared) are skipped with a warning.
+export const loadContextFiles = async (files: FileSource[] = []): Promise<ContextFile[]> => {
+  const loaded = await Promise.all(files.map(async (file): Promise<ContextFile | null> => {
+    try {
+      const content = await loadFileContent(file.id);
+      if (!content) {
+        console.warn(`Stored content for ${file.name} is missing; it was not sent.`);
+        return null;
+      }
+      const { id, name, mimeType } = file;
+      return isTextMimeType(mimeType)
+        ? { id, name, mimeType, text: await content.text() }
+        : { id, name, mimeType, data: await blobToBase64(content) };
+    } catch (e) {
+      console.warn(`Failed to read stored file ${file.name}:`, e);
+      return null;
+    }
+  }));
+  return loaded.filter((file): file is ContextFile => file !== null);
+};
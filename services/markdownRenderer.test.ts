@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { renderMarkdown } from './markdownRenderer';
+import { sanitizeHtml } from './htmlSanitizer';
+
+const parse = (html: string): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+const attributeNames = (root: HTMLElement): string[] =>
+  Array.from(root.querySelectorAll('*')).flatMap(el => el.getAttributeNames());
+
+describe('renderMarkdown', () => {
+  it('strips script tags', () => {
+    const root = parse(renderMarkdown('Before\n\n<script>alert(1)</script>\n\nAfter <script>alert(2)</script>'));
+    expect(root.querySelector('script')).toBeNull();
+    expect(root.innerHTML).not.toContain('alert');
+    expect(root.textContent).toContain('Before');
+    expect(root.textContent).toContain('After');
+  });
+
+  it('strips images along with their onerror handler', () => {
+    const html = renderMarkdown('<img src="x" onerror="alert(1)"> and ![alt](https://example.com/a.png)');
+    expect(parse(html).querySelector('img')).toBeNull();
+    expect(html).not.toContain('onerror');
+  });
+
+  it.each([
+    ['javascript:', '[click](javascript:alert(1))'],
+    ['javascript: in raw HTML', '<a href="JaVaScRiPt:alert(1)">click</a>'],
+    ['data:', '[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)'],
+    ['data: in raw HTML', '<a href="data:text/html,<script>alert(1)</script>">click</a>'],
+    ['vbscript: in raw HTML', '<a href="vbscript:msgbox(1)">click</a>'],
+  ])('drops %s hrefs', (_label, markdownText) => {
+    const root = parse(renderMarkdown(markdownText));
+    root.querySelectorAll('a').forEach(link => expect(link.hasAttribute('href')).toBe(false));
+    expect(root.innerHTML).not.toMatch(/javascript:|data:|vbscript:/i);
+  });
+
+  it('strips iframes', () => {
+    const root = parse(renderMarkdown('<iframe src="https://evil.example.com"></iframe>\n\nText'));
+    expect(root.querySelector('iframe')).toBeNull();
+    expect(root.innerHTML).not.toContain('evil.example.com');
+  });
+
+  it('strips inline styles and event attributes', () => {
+    const root = parse(renderMarkdown(
+      '<p style="position:fixed;inset:0" onclick="alert(1)" onmouseover="alert(2)">Hover</p>\n\n' +
+      '<div class="fixed inset-0 table-wrapper" onfocus="alert(3)" tabindex="0">Focus</div>'
+    ));
+    const names = attributeNames(root);
+    expect(names).not.toContain('style');
+    expect(names.filter(name => name.startsWith('on'))).toEqual([]);
+    expect(root.querySelector('div')?.className).toBe('table-wrapper');
+  });
+
+  it('strips buttons and citation links written into the answer', () => {
+    const root = parse(renderMarkdown(
+      '<button type="button" class="code-block-copy">Copy</button> ' +
+      '<sup class="citation-marker"><a href="#source-m1-1" data-citation-index="1">[1]</a></sup> \uE0011\uE002 \uE000'
+    ));
+    expect(root.querySelector('button')).toBeNull();
+    expect(root.querySelector('.citation-marker, [data-citation-index]')).toBeNull();
+    expect(root.textContent).not.toMatch(/[\uE000-\uE002]/);
+  });
+
+  it('adds the citation markers it is given after sanitizing', () => {
+    const root = parse(renderMarkdown('Gemini supports URL context.', {
+      insert: (text, formatMarker) => `${text}${formatMarker(1)}`,
+      formatMarker: n => `<sup class="citation-marker"><a href="#source-m1-${n}" data-citation-index="${n}">[${n}]</a></sup>`,
+    }));
+    const link = root.querySelector('.citation-marker a');
+    expect(link?.getAttribute('data-citation-index')).toBe('1');
+    expect(link?.getAttribute('href')).toBe('#source-m1-1');
+  });
+
+  it('opens external links in a new tab without an opener', () => {
+    const root = parse(renderMarkdown('See [the docs](https://ai.google.dev/gemini-api/docs) or <a href="http://example.com" target="_self">this</a>.'));
+    const links = Array.from(root.querySelectorAll('a'));
+    expect(links).toHaveLength(2);
+    links.forEach(link => {
+      expect(link.getAttribute('target')).toBe('_blank');
+      expect(link.getAttribute('rel')).toBe('noopener noreferrer');
+    });
+  });
+
+  it('keeps in-page and mailto links in the same tab', () => {
+    const root = parse(renderMarkdown('[Top](#top) and <a href="mailto:docs@example.com" target="_blank">mail</a>'));
+    root.querySelectorAll('a').forEach(link => expect(link.hasAttribute('target')).toBe(false));
+    expect(Array.from(root.querySelectorAll('a')).map(link => link.getAttribute('href'))).toEqual(['#top', 'mailto:docs@example.com']);
+  });
+
+  it('keeps the markup of highlighted code blocks', () => {
+    const root = parse(renderMarkdown('```ts\nconst a = 1;\n```'));
+    expect(root.querySelector('.code-block .code-block-copy')?.textContent).toBe('Copy');
+    expect(root.querySelector('code.hljs.language-ts .code-line')).not.toBeNull();
+  });
+
+  it('keeps the highlight.js sub-scope classes', () => {
+    const root = parse(renderMarkdown('```js\nclass Foo extends Bar {}\nfunction run() {}\n```'));
+    expect(root.querySelector('.hljs-title.class_')).not.toBeNull();
+    expect(root.querySelector('.hljs-title.class_.inherited__')).not.toBeNull();
+    expect(root.querySelector('.hljs-title.function_')).not.toBeNull();
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('strips the same payloads from HTML that did not come from Markdown', () => {
+    const root = parse(sanitizeHtml(
+      '<script>alert(1)</script><img src=x onerror=alert(1)><iframe src="https://evil.example.com"></iframe>' +
+      '<a href="javascript:alert(1)" onclick="alert(1)" style="color:red">link</a>'
+    ));
+    expect(root.querySelector('script, img, iframe')).toBeNull();
+    const link = root.querySelector('a')!;
+    expect(link.getAttributeNames()).toEqual([]);
+    expect(link.textContent).toBe('link');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Marked, Tokens } from 'marked';
+import hljs from 'highlight.js';
+import { sanitizeHtml } from './htmlSanitizer';
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+// Markup the app adds to an answer must not pass the sanitizer, or the answer text could fake it.
+// It is rendered as private-use placeholder characters instead, which pass through Markdown and the
+// sanitizer as plain text, and swapped for the markup afterwards. The answer's own placeholder
+// characters are removed first.
+const PLACEHOLDER_CHARS = /[\uE000-\uE002]/g;
+const COPY_BUTTON_PLACEHOLDER = '\uE000';
+const CITATION_PLACEHOLDER = /\uE001(\d+)\uE002/g;
+const COPY_BUTTON = '<button type="button" class="code-block-copy" aria-label="Copy code">Copy</button>';
+
+const formatCitationPlaceholder = (n: number): string => `\uE001${n}\uE002`;
+
+// Citation markers for renderMarkdown: `insert` adds them to the answer text with the given
+// formatter, `formatMarker` returns the markup of marker n.
+export interface CitationMarkers {
+  insert: (text: string, formatMarker: (n: number) => string) => string;
+  formatMarker: (n: number) => string;
+}
+
+// highlight.js output can contain spans that cross line breaks. Each line is wrapped in its own
+// span (for CSS line numbers), so spans still open at a line break are closed and reopened.
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = '';
+  const tokenRegex = /(<span[^>]*>|<\/span>|\n)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRegex.exec(html)) !== null) {
+    current += html.slice(lastIndex, match.index);
+    lastIndex = tokenRegex.lastIndex;
+    const token = match[1];
+    if (token === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (token === '</span>') {
+      openTags.pop();
+      current += token;
+    } else {
+      openTags.push(token);
+      current += token;
+    }
+  }
+  current += html.slice(lastIndex);
+  lines.push(current);
+  // A trailing newline would otherwise render as an empty numbered line.
+  if (lines.length > 1 && lines[lines.length - 1].replace(/<[^>]+>/g, '') === '') lines.pop();
+  return lines;
+};
+
+const highlightCode = (code: string, lang: string | undefined): { html: string; language: string } => {
+  const requested = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+  if (requested && hljs.getLanguage(requested)) {
+    return { html: hljs.highlight(code, { language: requested, ignoreIllegals: true }).value, language: requested };
+  }
+  if (!requested) {
+    const auto = hljs.highlightAuto(code);
+    return { html: auto.value, language: auto.language || 'text' };
+  }
+  return { html: escapeHtml(code), language: requested };
+};
+
+const markdown = new Marked({
+  gfm: true,
+  useNewRenderer: true, // Token-object renderer signature (the default from marked v14 on)
+  renderer: {
+    code({ text, lang }: Tokens.Code): string {
+      const { html, language } = highlightCode(text, lang);
+      const safeLanguage = language.replace(/[^\w+#-]/g, '') || 'text';
+      const lines = splitHighlightedLines(html).map(line => `<span class="code-line">${line}</span>`).join('\n');
+      return `<div class="code-block">` +
+        `<div class="code-block-header"><span class="code-block-lang">${escapeHtml(safeLanguage)}</span>` +
+        `${COPY_BUTTON_PLACEHOLDER}</div>` +
+        `<pre><code class="hljs language-${safeLanguage}">${lines}</code></pre>` +
+        `</div>\n`;
+    },
+  },
+});
+
+// Wraps tables after rendering rather than re-implementing marked's table renderer.
+const wrapTables = (html: string): string => {
+  return html
+    .replace(/<table>/g, '<div class="table-wrapper"><table>')
+    .replace(/<\/table>/g, '</table></div>');
+};
+
+// Markdown -> sanitized HTML for model answers, with the code block copy buttons and, when given,
+// the citation markers.
+export const renderMarkdown = (text: string, citationMarkers?: CitationMarkers): string => {
+  const withoutPlaceholders = text.replace(PLACEHOLDER_CHARS, '');
+  const source = citationMarkers ? citationMarkers.insert(withoutPlaceholders, formatCitationPlaceholder) : withoutPlaceholders;
+  return sanitizeHtml(wrapTables(markdown.parse(source, { async: false }) as string))
+    .replaceAll(COPY_BUTTON_PLACEHOLDER, COPY_BUTTON)
+    .replace(CITATION_PLACEHOLDER, (_, n) => citationMarkers ? citationMarkers.formatMarker(Number(n)) : '');
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, ChatSession, MessageSender } from '../types';
+
+export interface MessageSearchFilters {
+  query: string;
+  groupId?: string; // Undefined searches every group
+  sender?: MessageSender;
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+}
+
+export interface MessageSearchResult {
+  session: ChatSession;
+  message: ChatMessage;
+  snippet: string;
+  matchedUrls: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+const SNIPPET_RADIUS = 80;
+const DEFAULT_RESULT_LIMIT = 100;
+
+export const getSearchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+const getMessageUrls = (message: ChatMessage): string[] => {
+  const urls = (message.urlContext || []).map(meta => meta.retrievedUrl);
+  for (const citation of message.citations || []) {
+    urls.push(...citation.sourceUrls);
+  }
+  return Array.from(new Set(urls));
+};
+
+// A window of the text around the first matching term, so long answers show the relevant part.
+const buildSnippet = (text: string, terms: string[]): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+const matchesFilters = (session: ChatSession, message: ChatMessage, filters: MessageSearchFilters): boolean => {
+  if (message.isLoading || message.isStreaming) return false;
+  if (filters.groupId && session.groupId !== filters.groupId) return false;
+  if (filters.sender && message.sender !== filters.sender) return false;
+  const time = message.timestamp.getTime();
+  if (filters.from && time < filters.from.getTime()) return false;
+  if (filters.to && time > filters.to.getTime()) return false;
+  return true;
+};
+
+// Every term must appear in the message text or in one of its retrieved or cited URLs.
+// Results are newest first.
+export const searchMessages = (
+  sessions: ChatSession[],
+  filters: MessageSearchFilters,
+  limit = DEFAULT_RESULT_LIMIT
+): MessageSearchResult[] => {
+  const terms = getSearchTerms(filters.query);
+  if (terms.length === 0) return [];
+
+  const results: MessageSearchResult[] = [];
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      if (!matchesFilters(session, message, filters)) continue;
+      const text = message.text.toLowerCase();
+      const urls = getMessageUrls(message);
+      const matchedUrls = urls.filter(url => terms.some(term => url.toLowerCase().includes(term)));
+      const isMatch = terms.every(term => text.includes(term) || urls.some(url => url.toLowerCase().includes(term)));
+      if (!isMatch) continue;
+      results.push({ session, message, snippet: buildSnippet(message.text, terms), matchedUrls });
+    }
+  }
+  return results
+    .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+    .slice(0, limit);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into matching and non-matching runs for rendering highlights without HTML injection.
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, isMatch: false }];
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, isMatch: terms.includes(part.toLowerCase()) }));
+};
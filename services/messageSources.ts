@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, Citation } from '../types';
+import { escapeHtml } from './markdownRenderer';
+
+export const LOCAL_FILE_STATUS = 'LOCAL_FILE';
+
+export interface SourceEntry {
+  url: string; // The file name for local files
+  status?: string; // Undefined for URLs that were cited but not reported by urlContext
+  isFile?: boolean;
+}
+
+// Retrieved URLs first (in the order urlContext reported them), then any other cited URLs, then
+// the local files sent with the question.
+export const buildSourceList = (message: ChatMessage): SourceEntry[] => {
+  const sources: SourceEntry[] = (message.urlContext || []).map(meta => ({ url: meta.retrievedUrl, status: meta.urlRetrievalStatus }));
+  for (const citation of message.citations || []) {
+    for (const url of citation.sourceUrls) {
+      if (!sources.some(source => source.url === url)) {
+        sources.push({ url });
+      }
+    }
+  }
+  for (const file of message.fileSources || []) {
+    sources.push({ url: file.name, status: LOCAL_FILE_STATUS, isFile: true });
+  }
+  return sources;
+};
+
+const isInsideCode = (text: string, position: number): boolean => {
+  const before = text.slice(0, position);
+  const fenceCount = (before.match(/^\s*```/gm) || []).length;
+  if (fenceCount % 2 === 1) return true;
+  const currentLine = before.slice(before.lastIndexOf('\n') + 1);
+  return (currentLine.match(/`/g) || []).length % 2 === 1;
+};
+
+// Appends a marker after each cited segment, where n is the 1-based position of the source in
+// `sources`. Markers are inserted from the end so earlier positions stay valid.
+export const insertCitationMarkers = (
+  text: string,
+  citations: Citation[],
+  sources: SourceEntry[],
+  formatMarker: (n: number) => string
+): string => {
+  const markersByPosition = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    const start = text.indexOf(citation.segmentText);
+    if (start === -1) continue;
+    const end = start + citation.segmentText.length;
+    if (isInsideCode(text, end)) continue;
+    const markers = markersByPosition.get(end) || new Set<number>();
+    for (const url of citation.sourceUrls) {
+      const sourceIndex = sources.findIndex(source => source.url === url);
+      if (sourceIndex !== -1) markers.add(sourceIndex + 1);
+    }
+    if (markers.size > 0) markersByPosition.set(end, markers);
+  }
+
+  let result = text;
+  const positions = Array.from(markersByPosition.keys()).sort((a, b) => b - a);
+  for (const position of positions) {
+    const markup = Array.from(markersByPosition.get(position)!)
+      .sort((a, b) => a - b)
+      .map(formatMarker)
+      .join('');
+    result = result.slice(0, position) + markup + result.slice(position);
+  }
+  return result;
+};
+
+// Superscript [n] link to the matching entry of the source list rendered under a message.
+export const formatHtmlCitationMarker = (messageId: string) => (n: number): string =>
+  `<sup class="citation-marker"><a href="#source-${escapeHtml(messageId)}-${n}" data-citation-index="${n}">[${n}]</a></sup>`;
+
+export const formatRetrievalStatus = (status: string | undefined): string => {
+  if (status === LOCAL_FILE_STATUS) return 'FILE';
+  return typeof status === 'string' ? status.replace('URL_RETRIEVAL_STATUS_', '') : 'CITED';
+};
+
+export const isSuccessfulSource = (source: SourceEntry): boolean =>
+  source.status === undefined || source.status === 'URL_RETRIEVAL_STATUS_SUCCESS' || source.status === LOCAL_FILE_STATUS;
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, Citation, GenerationSettings, TokenUsage, UrlContextMetadataItem } from '../types';
+import { ContextFile, MAX_SUGGESTIONS, ModelProvider, ModelResponse, estimateTokens, selectHistoryTurns } from './modelProvider';
+import { rankUrlsForQuery } from './urlRanking';
+import { AuthError, ModelError, RateLimitError } from './modelErrors';
+
+// Offline stand-in for a real model, enabled with MOCK_MODEL=true. Answers are derived from the
+// prompt and URLs only, so the same question always produces the same response.
+export const MOCK_MODEL_ENABLED = process.env.MOCK_MODEL === 'true';
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS) >= 0 ? Number(process.env.MOCK_LATENCY_MS) : 400;
+// Comma-separated substrings; URLs containing any of them report URL_RETRIEVAL_STATUS_ERROR.
+const FAILING_URL_PATTERNS = (process.env.MOCK_FAILING_URLS || '').split(',').map(p => p.trim()).filter(Boolean);
+// Error returned by every request: "invalid-key" or "quota". A prompt containing [mock:invalid-key]
+// or [mock:quota] triggers the same error for that request only.
+const INJECTED_ERROR = process.env.MOCK_ERROR || '';
+// A prompt containing [mock:truncate] stops halfway with finishReason MAX_TOKENS.
+const TRUNCATE_DIRECTIVE = '[mock:truncate]';
+
+const MAX_MOCK_URLS = 20;
+const STREAM_CHUNK_WORDS = 4;
+
+type MockErrorKind = 'invalid-key' | 'quota';
+
+const MOCK_ERRORS: Record<MockErrorKind, () => ModelError> = {
+  'invalid-key': () => new AuthError("Invalid API Key. Please check your GEMINI_API_KEY environment variable."),
+  'quota': () => new RateLimitError("API quota or rate limit exceeded. Please check your Gemini API quota."),
+};
+
+const getInjectedError = (prompt: string): ModelError | null => {
+  const directive = prompt.match(/\[mock:(invalid-key|quota)\]/)?.[1] || INJECTED_ERROR;
+  return directive in MOCK_ERRORS ? MOCK_ERRORS[directive as MockErrorKind]() : null;
+};
+
+const delay = (ms: number, abortSignal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (ms <= 0 || abortSignal?.aborted) return resolve();
+    const timeout = setTimeout(resolve, ms);
+    abortSignal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
+
+const describeUrl = (url: string): string => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const lastSegment = pathname.split('/').filter(Boolean).pop();
+    return lastSegment ? lastSegment.replace(/[-_]+/g, ' ') : hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+export const buildMockUrlContextMetadata = (urls: string[]): UrlContextMetadataItem[] =>
+  urls.map(url => ({
+    retrievedUrl: url,
+    urlRetrievalStatus: FAILING_URL_PATTERNS.some(pattern => url.includes(pattern))
+      ? 'URL_RETRIEVAL_STATUS_ERROR'
+      : 'URL_RETRIEVAL_STATUS_SUCCESS',
+  }));
+
+const buildMockAnswer = (
+  prompt: string,
+  metadata: UrlContextMetadataItem[],
+  history: ChatMessage[],
+  files: ContextFile[]
+): { text: string; citations: Citation[] } => {
+  const retrieved = metadata.filter(meta => meta.urlRetrievalStatus === 'URL_RETRIEVAL_STATUS_SUCCESS').map(meta => meta.retrievedUrl);
+  const priorTurns = selectHistoryTurns(history).length;
+  const question = prompt.trim().replace(/\s+/g, ' ');
+
+  if (retrieved.length === 0) {
+    return {
+      text: `This is a mock answer to "${question}". None of the ${metadata.length} URL(s) could be retrieved, so there is nothing to cite.`,
+      citations: [],
+    };
+  }
+
+  const summary = `The mock documentation covers this in "${describeUrl(retrieved[0])}".`;
+  const lines = [
+    `This is a mock answer to "${question}".`,
+    '',
+    summary,
+    '',
+    ...retrieved.slice(0, 3).map(url => `- See **${describeUrl(url)}** for details.`),
+    '',
+    '```ts',
+    `const answer = await ask(${JSON.stringify(question.slice(0, 40))});`,
+    '```',
+    '',
+    `_Mock backend: ${retrieved.length} of ${metadata.length} URL(s) retrieved, ${files.length} local file(s), ${priorTurns} earlier turn(s) of context._`,
+  ];
+  return {
+    text: lines.join('\n'),
+    citations: [{ segmentText: summary, sourceUrls: [retrieved[0]] }],
+  };
+};
+
+// Counted with the same characters-per-token heuristic as the history budget, so cost tracking can
+// be exercised offline.
+const estimateMockUsage = (prompt: string, history: ChatMessage[], files: ContextFile[], text: string): TokenUsage => {
+  const promptTokens = estimateTokens(prompt) +
+    selectHistoryTurns(history).reduce((sum, turn) => sum + estimateTokens(turn.text), 0) +
+    files.reduce((sum, file) => sum + estimateTokens(file.text || file.data || ''), 0);
+  const candidatesTokens = estimateTokens(text);
+  return {
+    model: 'mock',
+    promptTokens,
+    candidatesTokens,
+    toolUseTokens: 0,
+    thinkingTokens: 0,
+    totalTokens: promptTokens + candidatesTokens,
+    isEstimate: true,
+  };
+};
+
+export const generateMockAnswer = async (
+  prompt: string,
+  urls: string[],
+  history: ChatMessage[],
+  onChunk: (accumulatedText: string) => void,
+  _settings: GenerationSettings,
+  abortSignal?: AbortSignal,
+  files: ContextFile[] = []
+): Promise<ModelResponse> => {
+  await delay(LATENCY_MS, abortSignal);
+  const injectedError = getInjectedError(prompt);
+  if (injectedError) throw injectedError;
+
+  const urlContextMetadata = buildMockUrlContextMetadata(rankUrlsForQuery(prompt, urls).slice(0, MAX_MOCK_URLS));
+  const answer = buildMockAnswer(prompt, urlContextMetadata, history, files);
+  const isTruncated = prompt.includes(TRUNCATE_DIRECTIVE);
+  const fullText = isTruncated ? answer.text.slice(0, Math.ceil(answer.text.length / 2)) : answer.text;
+
+  // Streams a few words at a time, splitting on whitespace so chunks keep the original spacing.
+  const words = fullText.split(/(?<=\s)/);
+  let text = '';
+  for (let i = 0; i < words.length && !abortSignal?.aborted; i += STREAM_CHUNK_WORDS) {
+    text += words.slice(i, i + STREAM_CHUNK_WORDS).join('');
+    onChunk(text);
+    await delay(LATENCY_MS / 10, abortSignal);
+  }
+  const usage = estimateMockUsage(prompt, history, files, text);
+  return abortSignal?.aborted
+    ? { text, urlContextMetadata, usage }
+    : { text, urlContextMetadata, usage, citations: isTruncated ? [] : answer.citations, finishReason: isTruncated ? 'MAX_TOKENS' : 'STOP' };
+};
+
+export const getMockSuggestions = async (
+  urls: string[],
+  _settings: GenerationSettings,
+  history: ChatMessage[] = []
+): Promise<string[]> => {
+  await delay(LATENCY_MS);
+  if (urls.length === 0) {
+    return ["Add some URLs to get topic suggestions."];
+  }
+  const injectedError = getInjectedError('');
+  if (injectedError) throw injectedError;
+
+  const topics = Array.from(new Set(urls.map(describeUrl)));
+  const lastQuestion = selectHistoryTurns(history).filter(turn => turn.role === 'user').pop();
+  const suggestions = lastQuestion
+    ? [`Can you show an example for "${lastQuestion.text.slice(0, 40)}"?`, ...topics.map(topic => `How does this relate to ${topic}?`)]
+    : topics.map(topic => `What does the ${topic} page cover?`);
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  isConfigured: () => MOCK_MODEL_ENABLED,
+  missingConfigurationMessage: 'The mock model is disabled. Set MOCK_MODEL=true to use it.',
+  maxUrlsPerRequest: MAX_MOCK_URLS,
+  generateAnswer: generateMockAnswer,
+  getSuggestions: getMockSuggestions,
+};
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FinishDetails, ModelErrorKind } from '../types';
+
+// Base class for classified provider failures. `retryable` marks failures that may succeed when
+// the same request is sent again (rate limits, flaky networks, overloaded servers).
+export class ModelError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ModelErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class AuthError extends ModelError {
+  constructor(message: string) {
+    super('auth', message, false);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ModelError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super('rate-limit', message, true);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockedError extends ModelError {
+  readonly details: FinishDetails;
+
+  constructor(message: string, details: FinishDetails = {}) {
+    super('safety-blocked', message, false);
+    this.name = 'SafetyBlockedError';
+    this.details = details;
+  }
+}
+
+export class NetworkError extends ModelError {
+  constructor(message: string) {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ModelError {
+  constructor(message = 'The model did not respond in time.') {
+    super('timeout', message, true);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class EmptyResponseError extends ModelError {
+  constructor(message = 'The model returned an empty response.') {
+    super('empty-response', message, true);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class ServerError extends ModelError {
+  constructor(message: string) {
+    super('server', message, true);
+    this.name = 'ServerError';
+  }
+}
+
+// Maps an HTTP status from any provider onto the taxonomy.
+export const errorFromStatus = (status: number, message: string, retryAfterMs?: number): ModelError => {
+  if (status === 401 || status === 403) return new AuthError(message);
+  if (status === 429) return new RateLimitError(message, retryAfterMs);
+  if (status === 408 || status === 504) return new TimeoutError(message);
+  if (status >= 500) return new ServerError(message);
+  return new ModelError('unknown', message, false);
+};
+
+// Best-effort classification of errors that carry no status: fetch failures surface as TypeErrors.
+export const toModelError = (error: unknown, fallbackMessage: string): ModelError => {
+  if (error instanceof ModelError) return error;
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return new NetworkError(`Could not reach the model service: ${error.message}`);
+  }
+  if (error instanceof Error) return new ModelError('unknown', `${fallbackMessage}: ${error.message}`, false);
+  return new ModelError('unknown', `${fallbackMessage} due to an unknown error.`, false);
+};
+
+// Parses a Retry-After header given in seconds.
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  abortSignal?: AbortSignal;
+  // Extra veto, e.g. once part of an answer has been shown a retry would duplicate it.
+  shouldRetry?: (error: ModelError) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: ModelError) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+
+const sleep = (ms: number, abortSignal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    abortSignal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      resolve();
+    }, { once: true });
+  });
+
+// Runs `request` until it succeeds, fails with a non-retryable error or runs out of attempts.
+// Delays grow exponentially with "full jitter" (a random delay up to the exponential cap), which
+// keeps clients that failed together from retrying in lockstep. A server-provided Retry-After
+// takes precedence.
+export const withRetry = async <T>(request: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request(attempt);
+    } catch (error) {
+      const modelError = toModelError(error, 'Failed to get response from AI');
+      const canRetry = modelError.retryable &&
+        attempt < maxAttempts &&
+        !options.abortSignal?.aborted &&
+        (options.shouldRetry?.(modelError) ?? true);
+      if (!canRetry) throw modelError;
+
+      const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const retryAfterMs = modelError instanceof RateLimitError ? modelError.retryAfterMs : undefined;
+      const delayMs = retryAfterMs !== undefined ? Math.min(retryAfterMs, maxDelayMs) : Math.round(Math.random() * cap);
+      options.onRetry?.(attempt, delayMs, modelError);
+      await sleep(delayMs, options.abortSignal);
+      if (options.abortSignal?.aborted) throw modelError;
+    }
+  }
+};
+
+export interface RequestTimeout {
+  signal: AbortSignal;
+  // Restarts the countdown, e.g. whenever a streamed chunk arrives.
+  touch: () => void;
+  didTimeOut: () => boolean;
+  clear: () => void;
+}
+
+// An AbortSignal that fires when `parentSignal` aborts or when `timeoutMs` pass without a touch().
+// Used as an idle timeout so long answers that keep streaming are not cut off.
+export const createRequestTimeout = (timeoutMs: number, parentSignal?: AbortSignal): RequestTimeout => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const clear = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+  };
+  const touch = () => {
+    clear();
+    if (controller.signal.aborted) return;
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+
+  if (parentSignal?.aborted) {
+    controller.abort();
+  } else {
+    parentSignal?.addEventListener('abort', () => {
+      clear();
+      controller.abort();
+    }, { once: true });
+    touch();
+  }
+  return { signal: controller.signal, touch, didTimeOut: () => timedOut, clear };
+};
+
+export interface ErrorDescription {
+  title: string;
+  hint: string;
+}
+
+export const describeModelError = (kind: ModelErrorKind): ErrorDescription => {
+  switch (kind) {
+    case 'auth':
+      return { title: 'Authentication failed', hint: 'The API key was rejected. Check the key configured for this provider and reload the app.' };
+    case 'rate-limit':
+      return { title: 'Rate limit or quota exceeded', hint: 'Too many requests were sent, or the quota is used up. Wait a moment before retrying, or check your plan.' };
+    case 'safety-blocked':
+      return { title: 'Blocked by safety filters', hint: 'The question or the answer was blocked. Rephrase the question or adjust the safety thresholds in the model settings.' };
+    case 'network':
+      return { title: 'Network error', hint: 'The model service could not be reached. Check your connection (and proxy, if one is configured).' };
+    case 'timeout':
+      return { title: 'Request timed out', hint: 'The model took too long to respond. Large URL groups take longer; retry, or narrow the group.' };
+    case 'empty-response':
+      return { title: 'Empty response', hint: 'The model returned no text. Retrying usually helps.' };
+    case 'server':
+      return { title: 'Service unavailable', hint: 'The model service reported an internal error or is overloaded. Retry in a moment.' };
+    default:
+      return { title: 'Something went wrong', hint: 'The request failed unexpectedly.' };
+  }
+};
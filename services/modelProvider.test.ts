@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_SUGGESTIONS, parseSuggestions } from './modelProvider';
+
+describe('parseSuggestions', () => {
+  it('returns the trimmed suggestions', () => {
+    expect(parseSuggestions('{"suggestions": [" What is Gemini? ", "How much does it cost?"]}'))
+      .toEqual(['What is Gemini?', 'How much does it cost?']);
+  });
+
+  it('drops empty and non-string entries', () => {
+    expect(parseSuggestions('{"suggestions": ["Valid", "", "   ", 42, null]}')).toEqual(['Valid']);
+  });
+
+  it(`keeps at most ${MAX_SUGGESTIONS} suggestions`, () => {
+    const suggestions = Array.from({ length: MAX_SUGGESTIONS + 2 }, (_, i) => `Question ${i}`);
+    expect(parseSuggestions(JSON.stringify({ suggestions }))).toEqual(suggestions.slice(0, MAX_SUGGESTIONS));
+  });
+
+  it('rejects text that is not JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => parseSuggestions('Here are some suggestions:')).toThrow('Error parsing suggestions from AI.');
+    expect(() => parseSuggestions(undefined)).toThrow('Error parsing suggestions from AI.');
+  });
+
+  it('rejects JSON without a suggestions array', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => parseSuggestions('{"suggestions": "What is Gemini?"}')).toThrow('Received suggestions in an unexpected format.');
+    expect(() => parseSuggestions('null')).toThrow('Received suggestions in an unexpected format.');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, Citation, FinishDetails, GenerationSettings, MessageSender, TokenUsage, UrlContextMetadataItem } from '../types';
+
+export type ModelProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// A local file sent with a question: text formats as `text`, binary formats (PDF) as base64 `data`.
+export interface ContextFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  text?: string;
+  data?: string;
+}
+
+export interface ModelResponse extends FinishDetails {
+  text: string;
+  urlContextMetadata?: UrlContextMetadataItem[];
+  citations?: Citation[];
+  usage?: TokenUsage;
+}
+
+// Everything the UI needs from a model backend. Implementations own how the URLs are read:
+// Gemini delegates to the urlContext tool, other providers fetch the pages themselves.
+export interface ModelProvider {
+  id: ModelProviderId;
+  name: string;
+  isConfigured: () => boolean;
+  missingConfigurationMessage: string;
+  maxUrlsPerRequest: number; // Beyond this many URLs, questions only read the most relevant pages
+  // Streams an answer: `onChunk` receives the accumulated text. Aborting resolves with the partial text.
+  generateAnswer: (
+    prompt: string,
+    urls: string[],
+    history: ChatMessage[],
+    onChunk: (accumulatedText: string) => void,
+    settings: GenerationSettings,
+    abortSignal?: AbortSignal,
+    files?: ContextFile[]
+  ) => Promise<ModelResponse>;
+  // Quick-start questions for the URLs, or follow-up questions when `history` holds a conversation.
+  getSuggestions: (urls: string[], settings: GenerationSettings, history?: ChatMessage[]) => Promise<string[]>;
+}
+
+// Rough budget for prior turns sent alongside a new question. Older turns are dropped first.
+const HISTORY_TOKEN_BUDGET = 8000;
+// Heuristic used instead of a countTokens round-trip: ~4 characters per token for English text.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export interface HistoryTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Picks the prior USER/MODEL turns to send, skipping system messages, error bubbles and placeholders.
+// Walks backwards from the newest turn so the most recent context survives trimming. When turns
+// are dropped, a note is prepended to the first kept turn.
+export const selectHistoryTurns = (history: ChatMessage[]): HistoryTurn[] => {
+  const turns = history.filter(msg =>
+    (msg.sender === MessageSender.USER || msg.sender === MessageSender.MODEL) &&
+    !msg.isLoading &&
+    msg.text.trim().length > 0
+  );
+
+  const kept: HistoryTurn[] = [];
+  let usedTokens = 0;
+  let droppedTurns = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const msg = turns[i];
+    const cost = estimateTokens(msg.text);
+    if (usedTokens + cost > HISTORY_TOKEN_BUDGET) {
+      droppedTurns = i + 1;
+      break;
+    }
+    usedTokens += cost;
+    kept.unshift({ role: msg.sender === MessageSender.USER ? 'user' : 'model', text: msg.text });
+  }
+
+  // Chat APIs expect the conversation to start with a user turn.
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    kept.shift();
+    droppedTurns++;
+  }
+
+  if (droppedTurns > 0 && kept.length > 0) {
+    const note = `(Note: ${droppedTurns} earlier message(s) from this conversation were omitted to stay within the context budget.)`;
+    kept[0] = { role: 'user', text: `${note}\n\n${kept[0].text}` };
+  }
+
+  return kept;
+};
+
+export const MAX_SUGGESTIONS = 4;
+// Follow-up suggestions only need the latest exchange, not the whole conversation.
+const FOLLOW_UP_CONTEXT_TURNS = 4;
+const FOLLOW_UP_CONTEXT_CHARS = 6000;
+
+// Structured-output schema for suggestion requests, in plain JSON Schema form. Providers translate
+// it to their own structured-output parameter so responses are bare JSON without Markdown fences.
+export const SUGGESTIONS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Short questions a developer might ask next.',
+    },
+  },
+  required: ['suggestions'],
+};
+
+// Sent as the next question to resume an answer that hit the output token limit. The truncated
+// answer is the last turn of the history, and the reply is appended to it verbatim.
+export const CONTINUE_ANSWER_PROMPT = "Your previous answer was cut off. Continue it exactly where it stopped, without repeating any of it and without an introduction.";
+
+// Without `history` this asks for quick-start questions about the URLs; with it, for follow-up
+// questions that continue the conversation.
+export const buildSuggestionsPrompt = (urls: string[], history: ChatMessage[] = []): string => {
+  const recentTurns = selectHistoryTurns(history).slice(-FOLLOW_UP_CONTEXT_TURNS);
+  if (recentTurns.length === 0) {
+    return `Based on the content of the following documentation URLs, provide 3-4 concise and actionable questions a developer might ask to explore these documents. These questions should be suitable as quick-start prompts.
+
+Relevant URLs:
+${urls.join('\n')}`;
+  }
+  const transcript = recentTurns
+    .map(turn => `${turn.role === 'user' ? 'Developer' : 'Assistant'}: ${turn.text}`)
+    .join('\n\n')
+    .slice(-FOLLOW_UP_CONTEXT_CHARS);
+  return `Here is the latest part of a conversation between a developer and a documentation assistant. Provide 3 concise follow-up questions the developer is likely to ask next. Do not repeat questions that were already answered. The questions should be answerable from the documentation URLs below.
+
+Conversation:
+${transcript}
+
+Relevant URLs:
+${urls.join('\n')}`;
+};
+
+export const parseSuggestions = (text: string | undefined): string[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text || '');
+  } catch (e) {
+    console.error("Failed to parse suggestions JSON:", e, "Raw text:", text);
+    throw new Error("Error parsing suggestions from AI.");
+  }
+  const suggestions = (parsed as { suggestions?: unknown })?.suggestions;
+  if (!Array.isArray(suggestions)) {
+    console.warn("Parsed suggestions response, but 'suggestions' array not found or invalid:", parsed);
+    throw new Error("Received suggestions in an unexpected format.");
+  }
+  return suggestions
+    .filter((s): s is string => typeof s === 'string' && s.trim().length > 0)
+    .map(s => s.trim())
+    .slice(0, MAX_SUGGESTIONS);
+};
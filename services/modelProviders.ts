@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelProvider, ModelProviderId } from './modelProvider';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { MOCK_MODEL_ENABLED, mockProvider } from './mockModelService';
+
+// The mock provider is only offered (and becomes the default) when MOCK_MODEL=true.
+export const MODEL_PROVIDERS: ModelProvider[] = MOCK_MODEL_ENABLED
+  ? [mockProvider, geminiProvider, openAiCompatibleProvider]
+  : [geminiProvider, openAiCompatibleProvider];
+
+export const DEFAULT_MODEL_PROVIDER_ID: ModelProviderId = MOCK_MODEL_ENABLED ? 'mock' : 'gemini';
+
+export const isModelProviderId = (id: unknown): id is ModelProviderId => {
+  return MODEL_PROVIDERS.some(provider => provider.id === id);
+};
+
+export const getModelProvider = (id: ModelProviderId): ModelProvider => {
+  return MODEL_PROVIDERS.find(provider => provider.id === id) || getModelProvider(DEFAULT_MODEL_PROVIDER_ID);
+};
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, GenerationSettings, TokenUsage, UrlContextMetadataItem } from '../types';
+import {
+  ContextFile,
+  ModelProvider,
+  ModelResponse,
+  SUGGESTIONS_JSON_SCHEMA,
+  buildSuggestionsPrompt,
+  parseSuggestions,
+  selectHistoryTurns,
+} from './modelProvider';
+import { rankUrlsForQuery } from './urlRanking';
+import { FetchedPage, fetchPage } from './pageFetchService';
+import { AuthError, ModelError, NetworkError, RateLimitError, errorFromStatus, parseRetryAfter, toModelError } from './modelErrors';
+
+// Any server implementing the OpenAI /chat/completions API (vLLM, Ollama, LM Studio, a gateway, ...).
+const BASE_URL = (process.env.OPENAI_COMPAT_BASE_URL || '').replace(/\/+$/, '');
+const API_KEY = process.env.OPENAI_COMPAT_API_KEY;
+const MODEL_NAME = process.env.OPENAI_COMPAT_MODEL || 'gpt-4o-mini';
+// Unlike the urlContext tool, page text is injected into the prompt, so only the most relevant
+// pages are fetched and each is truncated.
+const MAX_FETCHED_PAGES = 8;
+const MAX_CHARS_PER_PAGE = 12000;
+const MAX_TOTAL_PAGE_CHARS = 60000;
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAiUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// The fields read from a chat.completion.chunk event. The final event carries only `usage`.
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+  usage?: OpenAiUsage | null;
+}
+
+const SYSTEM_PROMPT = 'You are a documentation assistant. Answer using the documentation pages provided in the user message. If the pages do not cover the question, say so. Format answers in Markdown.';
+
+// Fetches the most relevant pages and reports their status in the same shape as Gemini's urlContext.
+const fetchPages = async (
+  prompt: string,
+  urls: string[],
+  abortSignal?: AbortSignal
+): Promise<{ pages: FetchedPage[]; urlContextMetadata: UrlContextMetadataItem[] }> => {
+  const selected = rankUrlsForQuery(prompt, urls).slice(0, MAX_FETCHED_PAGES);
+  const results = await Promise.allSettled(selected.map(url => fetchPage(url, abortSignal)));
+
+  const pages: FetchedPage[] = [];
+  const urlContextMetadata: UrlContextMetadataItem[] = [];
+  let remainingChars = MAX_TOTAL_PAGE_CHARS;
+  results.forEach((result, index) => {
+    const url = selected[index];
+    if (result.status === 'fulfilled' && result.value.text) {
+      const text = result.value.text.slice(0, Math.min(MAX_CHARS_PER_PAGE, remainingChars));
+      remainingChars -= text.length;
+      if (text) pages.push({ url, text });
+      urlContextMetadata.push({ retrievedUrl: url, urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_SUCCESS' });
+    } else {
+      if (result.status === 'rejected') console.warn(`Failed to fetch ${url}:`, result.reason);
+      urlContextMetadata.push({ retrievedUrl: url, urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_ERROR' });
+    }
+  });
+  return { pages, urlContextMetadata };
+};
+
+const buildSystemPrompt = (settings: GenerationSettings): string => {
+  const instruction = settings.systemInstruction.trim();
+  return instruction ? `${SYSTEM_PROMPT}\n\n${instruction}` : SYSTEM_PROMPT;
+};
+
+// Sampling parameters shared by every request. The model itself comes from OPENAI_COMPAT_MODEL.
+const buildSamplingParams = (settings: GenerationSettings): object => ({
+  ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+  ...(settings.maxOutputTokens !== undefined ? { max_tokens: settings.maxOutputTokens } : {}),
+});
+
+const buildMessages = (prompt: string, pages: FetchedPage[], history: ChatMessage[], settings: GenerationSettings): ChatCompletionMessage[] => {
+  const pageSections = pages.map(page => `<page url="${page.url}">\n${page.text}\n</page>`).join('\n\n');
+  const userPrompt = pages.length > 0
+    ? `${prompt}\n\nDocumentation pages:\n${pageSections}`
+    : `${prompt}\n\n(None of the documentation pages could be fetched.)`;
+  return [
+    { role: 'system', content: buildSystemPrompt(settings) },
+    ...selectHistoryTurns(history).map((turn): ChatCompletionMessage => ({
+      role: turn.role === 'user' ? 'user' : 'assistant',
+      content: turn.text,
+    })),
+    { role: 'user', content: userPrompt },
+  ];
+};
+
+const toProviderError = async (response: Response): Promise<ModelError> => {
+  const detail = await response.text().catch(() => '');
+  console.error("Error calling OpenAI-compatible endpoint:", response.status, detail);
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError("Invalid API Key. Please check your OPENAI_COMPAT_API_KEY environment variable.");
+  }
+  if (response.status === 429) {
+    return new RateLimitError(
+      "API quota or rate limit exceeded. Please check the rate limits of your model endpoint.",
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return errorFromStatus(response.status, `Model endpoint error (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+};
+
+const postChatCompletion = async (body: object, abortSignal?: AbortSignal): Promise<Response> => {
+  if (!BASE_URL) {
+    throw new ModelError('unknown', "OpenAI-compatible endpoint not configured. Set OPENAI_COMPAT_BASE_URL.", false);
+  }
+  const response = await fetch(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+    },
+    body: JSON.stringify({ model: MODEL_NAME, ...body }),
+    signal: abortSignal,
+  });
+  if (!response.ok) {
+    throw await toProviderError(response);
+  }
+  return response;
+};
+
+// OpenAI finish reasons mapped onto the Gemini names stored on ChatMessage.
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+};
+
+// OpenAI counts reasoning tokens as part of the completion; they are split out like Gemini's thinking tokens.
+const toTokenUsage = (usage: OpenAiUsage): TokenUsage => {
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    model: MODEL_NAME,
+    promptTokens: usage.prompt_tokens || 0,
+    candidatesTokens: (usage.completion_tokens || 0) - thinkingTokens,
+    toolUseTokens: 0,
+    thinkingTokens,
+    totalTokens: usage.total_tokens || 0,
+  };
+};
+
+// Reads an SSE stream of chat.completion.chunk events, calling `onDelta` for each content delta.
+// Resolves with the finish reason of the last choice and the token usage, if the endpoint reported them.
+const readCompletionStream = async (
+  response: Response,
+  onDelta: (delta: string) => void
+): Promise<{ finishReason?: string; usage?: TokenUsage }> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return { finishReason, usage };
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      try {
+        const event: ChatCompletionChunk = JSON.parse(data);
+        const choice = event.choices?.[0];
+        if (event.usage) usage = toTokenUsage(event.usage);
+        if (choice?.delta?.content) onDelta(choice.delta.content);
+        if (choice?.finish_reason) finishReason = FINISH_REASONS[choice.finish_reason] || choice.finish_reason.toUpperCase();
+      } catch (e) {
+        console.warn("Skipping malformed stream event:", data);
+      }
+    }
+  }
+};
+
+// Text files are sent like fetched pages. Chat completion endpoints have no portable way to take a
+// PDF, so PDFs are left out.
+const toFilePages = (files: ContextFile[]): FetchedPage[] =>
+  files.flatMap(file => {
+    if (file.text === undefined) {
+      console.warn(`Skipping ${file.name}: the OpenAI-compatible provider only accepts text files.`);
+      return [];
+    }
+    return [{ url: `file:${file.name}`, text: file.text.slice(0, MAX_CHARS_PER_PAGE) }];
+  });
+
+export const generateAnswerWithFetchedPages = async (
+  prompt: string,
+  urls: string[],
+  history: ChatMessage[],
+  onChunk: (accumulatedText: string) => void,
+  settings: GenerationSettings,
+  abortSignal?: AbortSignal,
+  files: ContextFile[] = []
+): Promise<ModelResponse> => {
+  let text = '';
+  let urlContextMetadata: UrlContextMetadataItem[] | undefined = undefined;
+  try {
+    const fetched = await fetchPages(prompt, urls, abortSignal);
+    urlContextMetadata = fetched.urlContextMetadata;
+    const response = await postChatCompletion({
+      ...buildSamplingParams(settings),
+      messages: buildMessages(prompt, [...fetched.pages, ...toFilePages(files)], history, settings),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, abortSignal);
+    const { finishReason, usage } = await readCompletionStream(response, delta => {
+      text += delta;
+      onChunk(text);
+    });
+    return { text, urlContextMetadata, finishReason, usage };
+  } catch (error) {
+    if (abortSignal?.aborted) {
+      return { text, urlContextMetadata };
+    }
+    if (error instanceof TypeError) {
+      throw new NetworkError(`Could not reach the model endpoint at ${BASE_URL}: ${error.message}`);
+    }
+    throw toModelError(error, 'Failed to get response from AI');
+  }
+};
+
+export const getSuggestionsFromEndpoint = async (
+  urls: string[],
+  settings: GenerationSettings,
+  history: ChatMessage[] = []
+): Promise<string[]> => {
+  if (urls.length === 0) {
+    return ["Add some URLs to get topic suggestions."];
+  }
+  const response = await postChatCompletion({
+    ...buildSamplingParams(settings),
+    messages: [{ role: 'user', content: buildSuggestionsPrompt(urls, history) }],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'suggestions', schema: SUGGESTIONS_JSON_SCHEMA },
+    },
+  });
+  const data = await response.json();
+  return parseSuggestions(data.choices?.[0]?.message?.content);
+};
+
+export const openAiCompatibleProvider: ModelProvider = {
+  id: 'openai-compatible',
+  name: `OpenAI-compatible (${MODEL_NAME})`,
+  isConfigured: () => !!BASE_URL,
+  missingConfigurationMessage: 'OpenAI-compatible endpoint is not configured. Please set the OPENAI_COMPAT_BASE_URL environment variable (and OPENAI_COMPAT_API_KEY / OPENAI_COMPAT_MODEL if needed).',
+  maxUrlsPerRequest: MAX_FETCHED_PAGES,
+  generateAnswer: generateAnswerWithFetchedPages,
+  getSuggestions: getSuggestionsFromEndpoint,
+};
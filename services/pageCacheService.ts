@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CachedPage, URLGroup, UrlContextMetadataItem } from '../types';
+import { ContextFile } from './modelProvider';
+import { fetchPage } from './pageFetchService';
+import { deleteCachedPage, loadCachedPage, saveCachedPage } from './fileStore';
+import { Passage, selectPassages } from './passageRetrieval';
+
+// Cached pages older than this are fetched again before use. If that fails, the stale copy is used.
+export const PAGE_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Pages are loaded a few at a time so a large group does not flood the proxy or the sites.
+const MAX_CONCURRENT_PAGE_LOADS = 4;
+
+export interface PageLoadResult {
+  pages: CachedPage[];
+  urlContextMetadata: UrlContextMetadataItem[];
+}
+
+export const isPageStale = (fetchedAt: Date, now: Date = new Date()): boolean =>
+  now.getTime() - fetchedAt.getTime() > PAGE_CACHE_MAX_AGE_MS;
+
+export const formatCacheAge = (fetchedAt: Date, now: Date = new Date()): string => {
+  const minutes = Math.floor((now.getTime() - fetchedAt.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return `${Math.floor(minutes / (24 * 60))} d ago`;
+};
+
+const readCachedPage = async (url: string): Promise<CachedPage | undefined> => {
+  try {
+    return await loadCachedPage(url);
+  } catch (e) {
+    console.warn(`Failed to read cached page ${url}:`, e);
+    return undefined;
+  }
+};
+
+const fetchAndCachePage = async (url: string, abortSignal?: AbortSignal): Promise<CachedPage> => {
+  const fetched = await fetchPage(url, abortSignal);
+  if (!fetched.text) {
+    throw new Error('No readable text');
+  }
+  const page: CachedPage = { ...fetched, fetchedAt: new Date() };
+  try {
+    await saveCachedPage(page);
+  } catch (e) {
+    console.warn(`Failed to cache ${url}:`, e);
+  }
+  return page;
+};
+
+const loadPage = async (url: string, forceRefresh: boolean, abortSignal?: AbortSignal): Promise<CachedPage> => {
+  const cached = await readCachedPage(url);
+  if (cached && !forceRefresh && !isPageStale(cached.fetchedAt)) return cached;
+  try {
+    return await fetchAndCachePage(url, abortSignal);
+  } catch (e) {
+    if (cached && !abortSignal?.aborted) {
+      console.warn(`Failed to refresh ${url}, using the copy cached ${formatCacheAge(cached.fetchedAt)}:`, e);
+      return cached;
+    }
+    throw e;
+  }
+};
+
+// Like Promise.allSettled over `items`, but with at most `limit` tasks running at once.
+const settleWithLimit = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Returns the cached pages, fetching missing and stale ones (or every page with `forceRefresh`).
+// Retrieval status is reported in the same shape as Gemini's urlContext.
+export const loadPages = async (urls: string[], forceRefresh = false, abortSignal?: AbortSignal): Promise<PageLoadResult> => {
+  const results = await settleWithLimit(urls, MAX_CONCURRENT_PAGE_LOADS, url => loadPage(url, forceRefresh, abortSignal));
+  const pages: CachedPage[] = [];
+  const urlContextMetadata: UrlContextMetadataItem[] = [];
+  results.forEach((result, index) => {
+    const url = urls[index];
+    if (result.status === 'fulfilled') {
+      pages.push(result.value);
+      urlContextMetadata.push({ retrievedUrl: url, urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_SUCCESS' });
+    } else {
+      console.warn(`Failed to fetch ${url}:`, result.reason);
+      urlContextMetadata.push({ retrievedUrl: url, urlRetrievalStatus: 'URL_RETRIEVAL_STATUS_ERROR' });
+    }
+  });
+  return { pages, urlContextMetadata };
+};
+
+// When each cached page was fetched, for the freshness shown next to the URLs.
+export const loadCacheDates = async (urls: string[]): Promise<Record<string, Date>> => {
+  const pages = await Promise.all(urls.map(readCachedPage));
+  return Object.fromEntries(pages.flatMap(page => page ? [[page.url, page.fetchedAt]] : []));
+};
+
+// Cached pages whose URL no longer appears in any group.
+export const deleteOrphanedPages = (removedUrls: string[], remainingGroups: URLGroup[]): void => {
+  const usedUrls = new Set(remainingGroups.flatMap(group => group.urls));
+  removedUrls.filter(url => !usedUrls.has(url)).forEach(deleteCachedPage);
+};
+
+// The selected passages of one page become a single text "file" sent with the question.
+const toPassageFiles = (passages: Passage[]): ContextFile[] => {
+  const byUrl = new Map<string, Passage[]>();
+  passages.forEach(passage => byUrl.set(passage.url, [...(byUrl.get(passage.url) || []), passage]));
+  return Array.from(byUrl.entries()).map(([url, pagePassages]) => ({
+    id: `page:${url}`,
+    name: pagePassages[0].title ? `${pagePassages[0].title} (${url})` : url,
+    mimeType: 'text/plain',
+    text: pagePassages.map(passage => passage.text).join('\n\n[...]\n\n'),
+  }));
+};
+
+// Local retrieval: reads the URLs from the page cache and keeps only the passages that best match
+// the query. Only pages that contributed a passage are reported as retrieved.
+export const retrievePassages = async (
+  query: string,
+  urls: string[],
+  abortSignal?: AbortSignal
+): Promise<PageLoadResult & { files: ContextFile[] }> => {
+  const { pages, urlContextMetadata } = await loadPages(urls, false, abortSignal);
+  const passages = selectPassages(query, pages);
+  const usedUrls = new Set(passages.map(passage => passage.url));
+  return {
+    pages,
+    files: toPassageFiles(passages),
+    urlContextMetadata: urlContextMetadata.filter(item =>
+      item.urlRetrievalStatus !== 'URL_RETRIEVAL_STATUS_SUCCESS' || usedUrls.has(item.retrievedUrl)
+    ),
+  };
+};
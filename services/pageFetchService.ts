@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Optional prefix for fetching documentation pages through a CORS proxy, e.g. "http://localhost:8787/?url=".
+// The target URL is appended URI-encoded. The dev server provides one at "/page-proxy?url=".
+const PAGE_FETCH_PROXY = process.env.PAGE_FETCH_PROXY || '';
+
+export interface FetchedPage {
+  url: string;
+  title?: string;
+  text: string;
+}
+
+const extractReadableText = (html: string): { title?: string; text: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = doc.title.trim() || undefined;
+  doc.querySelectorAll('script, style, noscript, nav, header, footer, svg, iframe').forEach(el => el.remove());
+  const root = doc.querySelector('main, article') || doc.body;
+  return { title, text: (root?.textContent || '').replace(/\s+/g, ' ').trim() };
+};
+
+// Fetches a page directly from the browser (or through PAGE_FETCH_PROXY) and reduces HTML to its
+// readable text. Other content types, e.g. Markdown or llms.txt, are returned as-is.
+export const fetchPage = async (url: string, abortSignal?: AbortSignal): Promise<FetchedPage> => {
+  const requestUrl = PAGE_FETCH_PROXY ? `${PAGE_FETCH_PROXY}${encodeURIComponent(url)}` : url;
+  const response = await fetch(requestUrl, { signal: abortSignal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const body = await response.text();
+  const contentType = response.headers.get('content-type') || '';
+  return contentType.includes('html') ? { url, ...extractReadableText(body) } : { url, text: body };
+};
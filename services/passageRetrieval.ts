@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CachedPage } from '../types';
+import { tokenize } from './urlRanking';
+
+// Pages are split into overlapping word windows so a passage that straddles a boundary still
+// appears whole in one of them.
+const PASSAGE_WORDS = 180;
+const PASSAGE_OVERLAP_WORDS = 30;
+// Okapi BM25 parameters: term frequency saturation and document length normalisation.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const MAX_PASSAGES = 8;
+export const MAX_PASSAGE_CHARS = 24000;
+
+export interface Passage {
+  url: string;
+  title?: string;
+  text: string;
+  position: number; // Index of the passage within its page
+}
+
+export const splitIntoPassages = (page: CachedPage): Passage[] => {
+  const words = Array.from(page.text.matchAll(/\S+/g));
+  const passages: Passage[] = [];
+  const step = PASSAGE_WORDS - PASSAGE_OVERLAP_WORDS;
+  for (let start = 0; start < words.length; start += step) {
+    const end = Math.min(start + PASSAGE_WORDS, words.length) - 1;
+    // Sliced from the original text so Markdown and code keep their line breaks.
+    const text = page.text.slice(words[start].index, words[end].index! + words[end][0].length);
+    passages.push({ url: page.url, title: page.title, text, position: passages.length });
+    if (end === words.length - 1) break;
+  }
+  return passages;
+};
+
+// Scores every passage against the query with BM25. Passages sharing no terms with it score 0.
+export const scorePassages = (query: string, passages: Passage[]): number[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || passages.length === 0) return passages.map(() => 0);
+
+  const termCounts = passages.map(passage => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(passage.text)) counts.set(token, (counts.get(token) || 0) + 1);
+    return { counts, length: Array.from(counts.values()).reduce((sum, count) => sum + count, 0) };
+  });
+  const averageLength = termCounts.reduce((sum, entry) => sum + entry.length, 0) / passages.length || 1;
+  const inverseFrequency = new Map(queryTerms.map(term => {
+    const documentFrequency = termCounts.filter(entry => entry.counts.has(term)).length;
+    return [term, Math.log(1 + (passages.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+  }));
+
+  return termCounts.map(({ counts, length }) => queryTerms.reduce((score, term) => {
+    const frequency = counts.get(term) || 0;
+    if (frequency === 0) return score;
+    const normalisation = BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength);
+    return score + inverseFrequency.get(term)! * frequency * (BM25_K1 + 1) / (frequency + normalisation);
+  }, 0));
+};
+
+// Picks the best-scoring passages within the character budget, returned in page order so that
+// neighbouring passages read naturally. When nothing matches, the opening passage of each page is
+// used instead.
+export const selectPassages = (query: string, pages: CachedPage[]): Passage[] => {
+  const passages = pages.flatMap(splitIntoPassages);
+  const scores = scorePassages(query, passages);
+  let ranked = passages
+    .map((passage, index) => ({ passage, index, score: scores[index] }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  if (ranked.length === 0) {
+    ranked = passages.map((passage, index) => ({ passage, index, score: 0 })).filter(entry => entry.passage.position === 0);
+  }
+
+  const selected: typeof ranked = [];
+  let remainingChars = MAX_PASSAGE_CHARS;
+  for (const entry of ranked) {
+    if (selected.length >= MAX_PASSAGES) break;
+    if (entry.passage.text.length > remainingChars) continue;
+    selected.push(entry);
+    remainingChars -= entry.passage.text.length;
+  }
+  return selected.sort((a, b) => a.index - b.index).map(entry => entry.passage);
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { parseUrlGroupsImport, serializeUrlGroupsExport } from './storageService';
+
+describe('parseUrlGroupsImport', () => {
+  it('reads back an export', () => {
+    const groups = [{ id: 'docs', name: 'Docs', urls: ['https://docs.example.com/guide', 'https://docs.example.com/api'] }];
+    expect(parseUrlGroupsImport(serializeUrlGroupsExport(groups))).toEqual({ groups, invalidUrls: [] });
+  });
+
+  it('normalizes URLs and drops the ones that are not http(s)', () => {
+    const json = JSON.stringify([{
+      id: 'docs',
+      name: 'Docs',
+      urls: ['https://Docs.Example.com', 'https://docs.example.com/#intro', 'javascript:alert(1)', 'file:///etc/passwd', 'not a url', ' ', 'javascript:alert(1)'],
+    }]);
+    expect(parseUrlGroupsImport(json)).toEqual({
+      groups: [{ id: 'docs', name: 'Docs', urls: ['https://docs.example.com/'] }],
+      invalidUrls: ['javascript:alert(1)', 'file:///etc/passwd', 'not a url'],
+    });
+  });
+
+  it('rejects files that are not group exports', () => {
+    expect(() => parseUrlGroupsImport('{')).toThrow('The selected file is not valid JSON.');
+    expect(() => parseUrlGroupsImport('{"groups": []}')).toThrow('The selected file is not a URL group export.');
+    expect(() => parseUrlGroupsImport('[{"id": "docs", "name": "Docs", "urls": [42]}]')).toThrow('The URL group export is malformed.');
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, ChatSession, GenerationSettings, MessageSender, URLGroup, UsageSettings } from '../types';
+import { UrlHealthMap } from './urlHealthService';
+import { ModelProviderId } from './modelProvider';
+import { DEFAULT_MODEL_PROVIDER_ID, isModelProviderId } from './modelProviders';
+import { normalizeGenerationSettings } from './generationSettings';
+import { normalizeUsageSettings } from './usageService';
+import { applySessionMessages, createSession } from './chatSessionService';
+import { SuggestionCache } from './suggestionService';
+import { normalizeUrl } from './urlImportService';
+
+// All keys are namespaced so the app can share an origin with other tools.
+const STORAGE_KEYS = {
+  urlGroups: 'docBrowser.urlGroups',
+  activeUrlGroupId: 'docBrowser.activeUrlGroupId',
+  chatHistories: 'docBrowser.chatHistories', // Legacy: one conversation per group, migrated to chatSessions
+  chatSessions: 'docBrowser.chatSessions',
+  activeSessionIds: 'docBrowser.activeSessionIds',
+  urlHealth: 'docBrowser.urlHealth',
+  modelProviderId: 'docBrowser.modelProviderId',
+  generationSettings: 'docBrowser.generationSettings',
+  suggestionCache: 'docBrowser.suggestionCache',
+  usageSettings: 'docBrowser.usageSettings',
+};
+
+const GROUPS_EXPORT_FORMAT = 'documentation-browser/url-groups';
+const GROUPS_EXPORT_VERSION = 1;
+const CONVERSATION_EXPORT_FORMAT = 'documentation-browser/conversation';
+const CONVERSATION_EXPORT_VERSION = 1;
+
+type ChatHistories = Record<string, ChatMessage[]>;
+
+// Active session per URL group, so switching groups returns to the conversation left there.
+export type ActiveSessionIds = Record<string, string>;
+
+interface UrlGroupsExport {
+  format: string;
+  version: number;
+  exportedAt: string;
+  groups: URLGroup[];
+}
+
+export interface UrlGroupsImport {
+  groups: URLGroup[];
+  invalidUrls: string[]; // Distinct entries that are not http(s) URLs, left out of their groups
+}
+
+// A single conversation together with the URL group it was held against.
+export interface ConversationExport {
+  format: string;
+  version: number;
+  exportedAt: string;
+  group: URLGroup;
+  messages: ChatMessage[];
+}
+
+const DATE_KEYS = new Set(['timestamp', 'lastSuccess', 'lastFailure', 'createdAt', 'updatedAt', 'fetchedAt', 'addedAt']);
+
+// JSON.parse reviver that turns serialized timestamps back into Date objects.
+const reviveDates = (key: string, value: unknown): unknown => {
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw, reviveDates) as T) : null;
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from local storage:`, error);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Most likely a quota error; the app keeps working with in-memory state.
+    console.warn(`Failed to write "${key}" to local storage:`, error);
+  }
+};
+
+const isUrlGroup = (value: unknown): value is URLGroup => {
+  const group = value as URLGroup;
+  return !!group &&
+    typeof group.id === 'string' && group.id.length > 0 &&
+    typeof group.name === 'string' &&
+    Array.isArray(group.urls) && group.urls.every(url => typeof url === 'string') &&
+    (group.files === undefined || Array.isArray(group.files));
+};
+
+export const loadUrlGroups = (): URLGroup[] | null => {
+  const groups = readJson<unknown>(STORAGE_KEYS.urlGroups);
+  return Array.isArray(groups) && groups.length > 0 && groups.every(isUrlGroup) ? groups : null;
+};
+
+export const saveUrlGroups = (groups: URLGroup[]): void => {
+  writeJson(STORAGE_KEYS.urlGroups, groups);
+};
+
+export const loadActiveUrlGroupId = (): string | null => {
+  return readJson<string>(STORAGE_KEYS.activeUrlGroupId);
+};
+
+export const saveActiveUrlGroupId = (id: string): void => {
+  writeJson(STORAGE_KEYS.activeUrlGroupId, id);
+};
+
+const isChatSession = (value: unknown): value is ChatSession => {
+  const session = value as ChatSession;
+  return !!session &&
+    typeof session.id === 'string' &&
+    typeof session.groupId === 'string' &&
+    typeof session.title === 'string' &&
+    Array.isArray(session.messages) &&
+    session.createdAt instanceof Date &&
+    session.updatedAt instanceof Date;
+};
+
+// Each legacy per-group history becomes that group's first session.
+const migrateChatHistories = (): ChatSession[] => {
+  const histories = readJson<ChatHistories>(STORAGE_KEYS.chatHistories) || {};
+  return Object.entries(histories)
+    .filter(([, messages]) => Array.isArray(messages) && messages.length > 0)
+    .map(([groupId, messages]) => applySessionMessages(createSession(groupId), messages));
+};
+
+export const loadChatSessions = (): ChatSession[] => {
+  const sessions = readJson<unknown>(STORAGE_KEYS.chatSessions);
+  if (Array.isArray(sessions)) return sessions.filter(isChatSession);
+  return migrateChatHistories();
+};
+
+// In-flight placeholders are not persisted; a reload cannot resume them.
+export const saveChatSessions = (sessions: ChatSession[]): void => {
+  writeJson(STORAGE_KEYS.chatSessions, sessions.map(session => ({
+    ...session,
+    messages: session.messages.filter(msg => !msg.isLoading && !msg.isStreaming),
+  })));
+};
+
+export const loadActiveSessionIds = (): ActiveSessionIds => {
+  return readJson<ActiveSessionIds>(STORAGE_KEYS.activeSessionIds) || {};
+};
+
+export const saveActiveSessionIds = (ids: ActiveSessionIds): void => {
+  writeJson(STORAGE_KEYS.activeSessionIds, ids);
+};
+
+export const loadUrlHealth = (): UrlHealthMap => {
+  return readJson<UrlHealthMap>(STORAGE_KEYS.urlHealth) || {};
+};
+
+export const saveUrlHealth = (healthMap: UrlHealthMap): void => {
+  writeJson(STORAGE_KEYS.urlHealth, healthMap);
+};
+
+export const loadModelProviderId = (): ModelProviderId => {
+  const id = readJson<unknown>(STORAGE_KEYS.modelProviderId);
+  return isModelProviderId(id) ? id : DEFAULT_MODEL_PROVIDER_ID;
+};
+
+export const saveModelProviderId = (id: ModelProviderId): void => {
+  writeJson(STORAGE_KEYS.modelProviderId, id);
+};
+
+export const loadGenerationSettings = (): GenerationSettings => {
+  return normalizeGenerationSettings(readJson<Partial<GenerationSettings>>(STORAGE_KEYS.generationSettings));
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings): void => {
+  writeJson(STORAGE_KEYS.generationSettings, settings);
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  return normalizeUsageSettings(readJson<Partial<UsageSettings>>(STORAGE_KEYS.usageSettings));
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  writeJson(STORAGE_KEYS.usageSettings, settings);
+};
+
+export const loadSuggestionCache = (): SuggestionCache => {
+  return readJson<SuggestionCache>(STORAGE_KEYS.suggestionCache) || {};
+};
+
+export const saveSuggestionCache = (cache: SuggestionCache): void => {
+  writeJson(STORAGE_KEYS.suggestionCache, cache);
+};
+
+export const serializeUrlGroupsExport = (groups: URLGroup[]): string => {
+  const payload: UrlGroupsExport = {
+    format: GROUPS_EXPORT_FORMAT,
+    version: GROUPS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups: groups.map(({ id, name, urls }) => ({ id, name, urls })),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Accepts either an export produced by serializeUrlGroupsExport or a bare URLGroup[] array.
+// URLs are normalized like bulk import; entries that are not http(s) URLs are dropped and reported.
+export const parseUrlGroupsImport = (json: string): UrlGroupsImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error('The selected file is not valid JSON.');
+  }
+
+  const candidate = parsed as Partial<UrlGroupsExport>;
+  const groups = Array.isArray(parsed) ? parsed : candidate?.groups;
+  if (!Array.isArray(parsed) && candidate?.format !== GROUPS_EXPORT_FORMAT) {
+    throw new Error('The selected file is not a URL group export.');
+  }
+  if (!Array.isArray(groups) || !groups.every(isUrlGroup)) {
+    throw new Error('The URL group export is malformed.');
+  }
+  const invalidUrls = new Set<string>();
+  const importedGroups = groups.map(({ id, name, urls }) => {
+    const normalized = urls.flatMap(raw => {
+      const url = normalizeUrl(raw);
+      if (!url && raw.trim()) invalidUrls.add(raw.trim());
+      return url ? [url] : [];
+    });
+    return { id, name, urls: Array.from(new Set(normalized)) };
+  });
+  return { groups: importedGroups, invalidUrls: Array.from(invalidUrls) };
+};
+
+// Everything on a settled message is kept so that an import restores the session exactly.
+export const serializeConversationExport = (group: URLGroup, messages: ChatMessage[]): string => {
+  const payload: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    group: { id: group.id, name: group.name, urls: group.urls },
+    messages: messages.filter(msg => !msg.isLoading && !msg.isStreaming),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  const message = value as ChatMessage;
+  return !!message &&
+    typeof message.id === 'string' &&
+    typeof message.text === 'string' &&
+    Object.values(MessageSender).includes(message.sender) &&
+    message.timestamp instanceof Date;
+};
+
+export const parseConversationImport = (json: string): ConversationExport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json, reviveDates);
+  } catch (e) {
+    throw new Error('The selected file is not valid JSON.');
+  }
+
+  const candidate = parsed as Partial<ConversationExport>;
+  if (candidate?.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The selected file is not a conversation export.');
+  }
+  if (typeof candidate.version !== 'number' || candidate.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error('The conversation export was created by a newer version of the app.');
+  }
+  if (!isUrlGroup(candidate.group) || !Array.isArray(candidate.messages) || !candidate.messages.every(isChatMessage)) {
+    throw new Error('The conversation export is malformed.');
+  }
+  return candidate as ConversationExport;
+};
+
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface CachedSuggestions {
+  urlSetHash: string;
+  suggestions: string[];
+  fetchedAt: Date;
+}
+
+// Quick-start suggestions per URL group. An entry is only valid for the URL set it was made for.
+export type SuggestionCache = Record<string, CachedSuggestions>;
+
+// FNV-1a over the sorted, de-duplicated URLs: order changes do not invalidate the cache, any
+// addition or removal does.
+export const hashUrlSet = (urls: string[]): string => {
+  const uniqueUrls = Array.from(new Set(urls)).sort();
+  const key = uniqueUrls.join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${uniqueUrls.length}-${(hash >>> 0).toString(16)}`;
+};
+
+export const getCachedSuggestions = (cache: SuggestionCache, groupId: string, urls: string[]): string[] | null => {
+  const entry = cache[groupId];
+  return entry && entry.urlSetHash === hashUrlSet(urls) ? entry.suggestions : null;
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { URLGroup } from '../types';
+
+const MAX_GROUP_NAME_LENGTH = 60;
+
+export const slugifyGroupName = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'group';
+};
+
+// Returns `baseId` if it is free, otherwise the first free `baseId-2`, `baseId-3`, ...
+export const createUniqueGroupId = (baseId: string, takenIds: Iterable<string>): string => {
+  const taken = new Set(takenIds);
+  let id = baseId;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+  return id;
+};
+
+// Returns an error message for an invalid group name, or null if it can be used.
+export const validateGroupName = (name: string, groups: URLGroup[], ignoreGroupId?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Group name cannot be empty.';
+  }
+  if (trimmed.length > MAX_GROUP_NAME_LENGTH) {
+    return `Group name must be at most ${MAX_GROUP_NAME_LENGTH} characters.`;
+  }
+  const lower = trimmed.toLowerCase();
+  if (groups.some(group => group.id !== ignoreGroupId && group.name.trim().toLowerCase() === lower)) {
+    return 'A group with this name already exists.';
+  }
+  return null;
+};
+
+// Picks a name like "Docs (copy)", "Docs (copy 2)", ... that is not used by any group.
+export const createCopyName = (name: string, groups: URLGroup[]): string => {
+  const names = new Set(groups.map(group => group.name.trim().toLowerCase()));
+  let candidate = `${name} (copy)`;
+  for (let n = 2; names.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (copy ${n})`;
+  }
+  return candidate;
+};
+
+export const moveGroup = (groups: URLGroup[], groupId: string, offset: number): URLGroup[] => {
+  const from = groups.findIndex(group => group.id === groupId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= groups.length) return groups;
+  const reordered = [...groups];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { UrlContextMetadataItem, UrlHealth } from '../types';
+
+export type UrlHealthMap = Record<string, UrlHealth>;
+
+const SUCCESS_STATUS = 'URL_RETRIEVAL_STATUS_SUCCESS';
+// A URL that failed this many times in a row without a success in between is treated as dead.
+const DEAD_URL_FAILURE_THRESHOLD = 2;
+
+export const isRetrievalFailure = (item: UrlContextMetadataItem): boolean => {
+  return item.urlRetrievalStatus !== SUCCESS_STATUS;
+};
+
+export const getFailedUrls = (metadata: UrlContextMetadataItem[] | undefined): string[] => {
+  return (metadata || []).filter(isRetrievalFailure).map(item => item.retrievedUrl);
+};
+
+export const isUrlDead = (health: UrlHealth | undefined): boolean => {
+  return !!health && health.failureCount >= DEAD_URL_FAILURE_THRESHOLD;
+};
+
+export const getDeadUrls = (urls: string[], healthMap: UrlHealthMap): string[] => {
+  return urls.filter(url => isUrlDead(healthMap[url]));
+};
+
+// Folds one response's retrieval statuses into the health map. A success resets the failure count.
+export const recordUrlRetrievals = (
+  healthMap: UrlHealthMap,
+  metadata: UrlContextMetadataItem[] | undefined,
+  now: Date = new Date()
+): UrlHealthMap => {
+  if (!metadata || metadata.length === 0) return healthMap;
+  const next = { ...healthMap };
+  for (const item of metadata) {
+    const previous = next[item.retrievedUrl] || { failureCount: 0 };
+    next[item.retrievedUrl] = isRetrievalFailure(item)
+      ? { ...previous, lastFailure: now, lastStatus: item.urlRetrievalStatus, failureCount: previous.failureCount + 1 }
+      : { ...previous, lastSuccess: now, lastStatus: item.urlRetrievalStatus, failureCount: 0 };
+  }
+  return next;
+};
+
+export const describeUrlHealth = (health: UrlHealth | undefined): string => {
+  if (!health) return 'Not retrieved yet';
+  const parts = [
+    `Last success: ${health.lastSuccess ? health.lastSuccess.toLocaleString() : 'never'}`,
+    `Last failure: ${health.lastFailure ? health.lastFailure.toLocaleString() : 'never'}`,
+    `Consecutive failures: ${health.failureCount}`,
+  ];
+  if (health.lastStatus) {
+    parts.push(`Last status: ${health.lastStatus.replace('URL_RETRIEVAL_STATUS_', '')}`);
+  }
+  return parts.join('\n');
+};
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type UrlImportFormat = 'auto' | 'list' | 'sitemap' | 'llms';
+
+export interface UrlImportPlan {
+  toAdd: string[];          // New URLs that fit in the group
+  dropped: string[];        // New URLs that exceed the group's URL limit
+  alreadyInGroup: string[]; // URLs the group already contains
+  filteredOut: number;      // URLs that did not match the path prefix
+  invalid: string[];        // Distinct tokens that could not be parsed as http(s) URLs
+}
+
+// Normalizes a URL for comparison: http(s) only, no fragment, lower-cased host (done by URL).
+export const normalizeUrl = (raw: string): string | null => {
+  const trimmed = raw.trim().replace(/^<|>$/g, '');
+  if (!trimmed) return null;
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch (e) {
+    return null;
+  }
+};
+
+export const detectImportFormat = (text: string): Exclude<UrlImportFormat, 'auto'> => {
+  const trimmed = text.trim();
+  if (/^<\?xml|<urlset[\s>]|<sitemapindex[\s>]/i.test(trimmed)) return 'sitemap';
+  // llms.txt files are Markdown: an H1 title followed by link lists.
+  if (/^#\s/m.test(trimmed) && /\[[^\]]*\]\([^)]+\)/.test(trimmed)) return 'llms';
+  return 'list';
+};
+
+const extractFromList = (text: string): string[] => {
+  return text.split(/[\s,]+/).filter(Boolean);
+};
+
+// Reads <loc> entries from a sitemap. For a sitemap index the child sitemap URLs are returned,
+// since fetching them from the browser is usually blocked by CORS.
+const extractFromSitemap = (text: string): string[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The sitemap is not well-formed XML.');
+  }
+  return Array.from(doc.getElementsByTagName('loc')).map(loc => loc.textContent || '');
+};
+
+// Collects Markdown link targets and bare URLs from an llms.txt-style index.
+const extractFromLlmsTxt = (text: string): string[] => {
+  const urls: string[] = [];
+  const linkRegex = /\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = linkRegex.exec(text)) !== null) {
+    urls.push(match[1]);
+  }
+  const withoutLinks = text.replace(linkRegex, ' ');
+  urls.push(...(withoutLinks.match(/https?:\/\/[^\s)<>\]"']+/g) || []));
+  return urls;
+};
+
+export const extractUrls = (text: string, format: UrlImportFormat = 'auto'): string[] => {
+  const resolvedFormat = format === 'auto' ? detectImportFormat(text) : format;
+  switch (resolvedFormat) {
+    case 'sitemap':
+      return extractFromSitemap(text);
+    case 'llms':
+      return extractFromLlmsTxt(text);
+    default:
+      return extractFromList(text);
+  }
+};
+
+// A prefix starting with a scheme is matched against the whole URL, otherwise against the path.
+const matchesPrefix = (url: string, prefix: string): boolean => {
+  const trimmed = prefix.trim();
+  if (!trimmed) return true;
+  if (/^https?:\/\//i.test(trimmed)) return url.startsWith(trimmed);
+  const path = new URL(url).pathname;
+  return path.startsWith(trimmed.startsWith('/') ? trimmed : `/${trimmed}`);
+};
+
+export const planUrlImport = (
+  rawUrls: string[],
+  existingUrls: string[],
+  maxUrls: number,
+  pathPrefix = ''
+): UrlImportPlan => {
+  const existing = new Set(existingUrls.map(url => normalizeUrl(url) || url));
+  const seen = new Set<string>();
+  const plan: UrlImportPlan = { toAdd: [], dropped: [], alreadyInGroup: [], filteredOut: 0, invalid: [] };
+  let remaining = Math.max(0, maxUrls - existingUrls.length);
+
+  for (const raw of rawUrls) {
+    const url = normalizeUrl(raw);
+    if (!url) {
+      const token = raw.trim();
+      if (token && !plan.invalid.includes(token)) plan.invalid.push(token);
+      continue;
+    }
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    if (!matchesPrefix(url, pathPrefix)) {
+      plan.filteredOut++;
+    } else if (existing.has(url)) {
+      plan.alreadyInGroup.push(url);
+    } else if (remaining > 0) {
+      plan.toAdd.push(url);
+      remaining--;
+    } else {
+      plan.dropped.push(url);
+    }
+  }
+  return plan;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'about', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'which', 'with', 'why', 'you',
+  'www', 'com', 'https', 'http', 'html', 'docs', 'doc', 'index',
+]);
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => token.length > 3 ? token.replace(/s$/, '') : token);
+};
+
+// Heuristic relevance of a URL for a question: exact path/host token matches count fully,
+// prefix matches (e.g. "stream" vs "streaming") count half.
+export const scoreUrl = (query: string, url: string): number => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  let urlTokens: string[];
+  try {
+    const parsed = new URL(url);
+    urlTokens = tokenize(`${parsed.hostname} ${parsed.pathname}`);
+  } catch (e) {
+    urlTokens = tokenize(url);
+  }
+  let score = 0;
+  for (const queryToken of queryTokens) {
+    if (urlTokens.includes(queryToken)) {
+      score += 1;
+    } else if (queryToken.length >= 4 && urlTokens.some(t => t.length >= 4 && (t.startsWith(queryToken) || queryToken.startsWith(t)))) {
+      score += 0.5;
+    }
+  }
+  return score;
+};
+
+// Orders URLs by relevance to the query; ties keep the group's original order.
+export const rankUrlsForQuery = (query: string, urls: string[]): string[] => {
+  return urls
+    .map((url, index) => ({ url, index, score: scoreUrl(query, url) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.url);
+};
+
+export const countRelevantUrls = (query: string, urls: string[]): number => {
+  return urls.filter(url => scoreUrl(query, url) > 0).length;
+};
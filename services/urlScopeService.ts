@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// URLs written into a question, with or without an @ in front. Trailing sentence punctuation is
+// trimmed afterwards.
+const URL_IN_TEXT_PATTERN = /@?(https?:\/\/[^\s<>"'`]+)/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+const MAX_MENTION_CANDIDATES = 8;
+
+const isValidUrl = (urlString: string): boolean => {
+  try {
+    new URL(urlString);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// URLs mentioned in a question, in order of appearance. Group URLs picked from the @ menu and
+// URLs pasted straight into the text both count.
+export const extractMentionedUrls = (text: string): string[] => {
+  const urls = Array.from(text.matchAll(URL_IN_TEXT_PATTERN), match => match[1].replace(TRAILING_PUNCTUATION, ''));
+  return Array.from(new Set(urls.filter(isValidUrl)));
+};
+
+// The model sees plain URLs; the @ is only an input affordance.
+export const stripMentionMarkers = (text: string): string => text.replace(/@(https?:\/\/)/g, '$1');
+
+// The URLs a question is asked against: the URLs it mentions if there are any, otherwise the
+// URLs checked in the knowledge base.
+export const resolveQueryScope = (text: string, checkedUrls: string[]): string[] => {
+  const mentioned = extractMentionedUrls(text);
+  return mentioned.length > 0 ? mentioned : checkedUrls;
+};
+
+export interface ActiveMention {
+  start: number; // Index of the @
+  query: string; // Text typed after the @
+}
+
+// The @-mention being typed at the caret, if any. An @ only starts a mention at the beginning of
+// the text or after whitespace, so e-mail addresses are left alone.
+export const getActiveMention = (text: string, caret: number): ActiveMention | null => {
+  const match = text.slice(0, caret).match(/(^|\s)@(\S*)$/);
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+export const filterMentionCandidates = (urls: string[], query: string): string[] => {
+  const needle = query.toLowerCase();
+  return urls.filter(url => url.toLowerCase().includes(needle)).slice(0, MAX_MENTION_CANDIDATES);
+};
+
+// Replaces the mention being typed with the chosen URL. Returns the new text and caret position.
+export const insertMention = (text: string, mention: ActiveMention, url: string): { text: string; caret: number } => {
+  const before = text.slice(0, mention.start);
+  const after = text.slice(mention.start + 1 + mention.query.length);
+  const inserted = `@${url} `;
+  return { text: before + inserted + after.replace(/^\s+/, ''), caret: before.length + inserted.length };
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChatMessage, MessageSender, TokenUsage, UsageSettings } from '../types';
+
+// Published list prices for prompts up to 200k tokens. Edit them in the settings when they change
+// or to add the model of another provider.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  },
+};
+
+export const normalizeUsageSettings = (stored: Partial<UsageSettings> | null): UsageSettings => ({
+  ...DEFAULT_USAGE_SETTINGS,
+  ...stored,
+  prices: stored?.prices || DEFAULT_USAGE_SETTINGS.prices,
+});
+
+// Adds up the usage of several requests behind one answer, e.g. URL batches or a continuation.
+export const sumUsage = (usages: (TokenUsage | undefined)[]): TokenUsage | undefined => {
+  const reported = usages.filter((usage): usage is TokenUsage => !!usage);
+  if (reported.length === 0) return undefined;
+  return reported.reduce((sum, usage) => ({
+    model: sum.model,
+    promptTokens: sum.promptTokens + usage.promptTokens,
+    candidatesTokens: sum.candidatesTokens + usage.candidatesTokens,
+    toolUseTokens: sum.toolUseTokens + usage.toolUseTokens,
+    thinkingTokens: sum.thinkingTokens + usage.thinkingTokens,
+    totalTokens: sum.totalTokens + usage.totalTokens,
+    isEstimate: sum.isEstimate || usage.isEstimate || undefined,
+  }));
+};
+
+// Undefined when the price table has no entry for the model.
+export const estimateCost = (usage: TokenUsage, prices: UsageSettings['prices']): number | undefined => {
+  const price = prices[usage.model];
+  if (!price) return undefined;
+  const inputTokens = usage.promptTokens + usage.toolUseTokens;
+  const outputTokens = usage.candidatesTokens + usage.thinkingTokens;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export interface UsageSummary extends Omit<TokenUsage, 'model' | 'isEstimate'> {
+  answers: number; // Answers with recorded usage
+  cost: number; // Estimated USD for the answers whose model has a price
+  unpricedAnswers: number;
+}
+
+export const summarizeUsage = (messages: ChatMessage[], prices: UsageSettings['prices']): UsageSummary => {
+  const summary: UsageSummary = {
+    answers: 0, promptTokens: 0, candidatesTokens: 0, toolUseTokens: 0, thinkingTokens: 0, totalTokens: 0, cost: 0, unpricedAnswers: 0,
+  };
+  for (const message of messages) {
+    const usage = message.usage;
+    if (message.sender !== MessageSender.MODEL || !usage) continue;
+    summary.answers += 1;
+    summary.promptTokens += usage.promptTokens;
+    summary.candidatesTokens += usage.candidatesTokens;
+    summary.toolUseTokens += usage.toolUseTokens;
+    summary.thinkingTokens += usage.thinkingTokens;
+    summary.totalTokens += usage.totalTokens;
+    const cost = estimateCost(usage, prices);
+    if (cost === undefined) {
+      summary.unpricedAnswers += 1;
+    } else {
+      summary.cost += cost;
+    }
+  }
+  return summary;
+};
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  if (usd < 0.0001) return '<$0.0001';
+  return `$${usd.toFixed(usd < 0.01 ? 4 : 2)}`;
+};
+
+// Warns when the group is over its budget, or when one more answer of the group's average size
+// would take it past the budget. Groups without answers yet cannot be projected.
+export const describeBudgetStatus = (groupUsage: UsageSummary, budget: number | undefined): string | null => {
+  if (!budget || groupUsage.answers === 0) return null;
+  const used = formatTokenCount(groupUsage.totalTokens);
+  if (groupUsage.totalTokens >= budget) {
+    return `This group has used ${used} tokens, over its budget of ${formatTokenCount(budget)}.`;
+  }
+  const nextAnswerTokens = Math.round(groupUsage.totalTokens / groupUsage.answers);
+  if (groupUsage.totalTokens + nextAnswerTokens > budget) {
+    return `This group has used ${used} of its ${formatTokenCount(budget)}-token budget. The next question will likely exceed it (about ${formatTokenCount(nextAnswerTokens)} tokens per answer so far).`;
+  }
+  return null;
+};
+
+// Tokens and estimated cost on one line, e.g. "12.3k tokens · $0.0213".
+export const formatUsageTotals = (totalTokens: number, cost: number | undefined, isEstimate = false): string => {
+  const tokens = `${isEstimate ? '~' : ''}${formatTokenCount(totalTokens)} tokens`;
+  return cost === undefined ? tokens : `${tokens} · ${formatCost(cost)}`;
+};
+
+export const describeUsageBreakdown = (usage: Omit<TokenUsage, 'model'>): string[] => [
+  `Prompt: ${usage.promptTokens.toLocaleString()}`,
+  `Tool use (pages read): ${usage.toolUseTokens.toLocaleString()}`,
+  `Answer: ${usage.candidatesTokens.toLocaleString()}`,
+  `Thinking: ${usage.thinkingTokens.toLocaleString()}`,
+];
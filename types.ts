@@ -14,17 +14,134 @@ export interface UrlContextMetadataItem {
   urlRetrievalStatus: string; // Changed from url_retrieval_status
 }
 
+// Retrieval history of a single URL across responses.
+export interface UrlHealth {
+  lastSuccess?: Date;
+  lastFailure?: Date;
+  lastStatus?: string;
+  failureCount: number; // Consecutive failures since the last success
+}
+
+// Links a span of a model answer to the source URLs that support it.
+export interface Citation {
+  segmentText: string;
+  sourceUrls: string[];
+}
+
+export interface SafetyRating {
+  category: string; // e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+  probability: string; // e.g. MEDIUM
+  blocked?: boolean;
+}
+
+export type ModelErrorKind = 'auth' | 'rate-limit' | 'safety-blocked' | 'network' | 'timeout' | 'empty-response' | 'server' | 'unknown';
+
+// A failed answer, kept on the message so the bubble can explain the cause and offer a retry.
+export interface ChatMessageError {
+  kind: ModelErrorKind;
+  retryable: boolean;
+}
+
+// Token counts reported for one answer. Gemini's thinking tokens are counted separately from the
+// answer (candidates) tokens; both are billed as output.
+export interface TokenUsage {
+  model: string; // Model that produced the answer, used to look up its price
+  promptTokens: number;
+  candidatesTokens: number;
+  toolUseTokens: number; // Prompt tokens added by tools, e.g. pages read by urlContext
+  thinkingTokens: number;
+  totalTokens: number;
+  isEstimate?: boolean; // Counted locally rather than reported by the model
+}
+
 export interface ChatMessage {
   id: string;
   text: string;
   sender: MessageSender;
   timestamp: Date;
   isLoading?: boolean;
+  isStreaming?: boolean; // Text is still arriving from a streamed response
   urlContext?: UrlContextMetadataItem[];
+  citations?: Citation[];
+  urlScope?: string[]; // USER messages: the exact URLs the question was asked against
+  fileSources?: FileReference[]; // MODEL messages: local files sent with the question
+  error?: ChatMessageError; // Set on SYSTEM messages that report a failed answer
+  // Why generation ended, using Gemini's FinishReason names (STOP, MAX_TOKENS, SAFETY, ...).
+  finishReason?: string;
+  blockReason?: string; // The prompt was blocked before any answer was generated
+  safetyRatings?: SafetyRating[]; // Only ratings that blocked content or were medium/high risk
+  usage?: TokenUsage; // MODEL messages: summed over every request that produced the answer
+}
+
+export type FinishDetails = Pick<ChatMessage, 'finishReason' | 'blockReason' | 'safetyRatings'>;
+
+// A named conversation held against one URL group. Groups can have any number of sessions.
+export interface ChatSession {
+  id: string;
+  groupId: string;
+  title: string; // Empty until the first question, which then provides the title
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A local document attached to a group. Its bytes live in IndexedDB under `id` (see fileStore).
+export interface FileSource {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  addedAt: Date;
 }
 
+export type FileReference = Pick<FileSource, 'id' | 'name' | 'mimeType'>;
+
 export interface URLGroup {
   id: string;
   name: string;
   urls: string[];
+  files?: FileSource[]; // Sent with every question alongside the URLs
+}
+
+// Outcome of importing a URL group export, shown to the user after the import.
+export interface UrlGroupsImportSummary {
+  added: number; // Groups added
+  invalidUrls: string[]; // Entries that were not http(s) URLs and were left out
+  truncatedUrls: number; // URLs beyond the per-group limit that were dropped
+  maxUrls: number;
+}
+
+// Readable text of a documentation page, kept in IndexedDB for the local retrieval mode.
+export interface CachedPage {
+  url: string;
+  title?: string;
+  text: string;
+  fetchedAt: Date;
+}
+
+// 'url-context': the model reads the pages itself on every question (Gemini's urlContext tool or a
+// fresh fetch). 'local-cache': pages are fetched once, and only the best-matching passages are sent.
+export type RetrievalMode = 'url-context' | 'local-cache';
+
+// User-adjustable model parameters. Unset optional fields fall back to the model defaults.
+export interface GenerationSettings {
+  model: string; // Gemini model name; other providers use their configured model
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // -1 lets the model decide, 0 disables thinking where supported
+  systemInstruction: string;
+  safetyThresholds: Record<string, string>; // HarmCategory -> HarmBlockThreshold
+  retrievalMode: RetrievalMode;
+}
+
+// USD per million tokens. Prompt and tool-use tokens are billed as input, answer and thinking
+// tokens as output.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>; // Keyed by model name
+  groupTokenBudget?: number; // Warn before a question would take a group's total past this
 }
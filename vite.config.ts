@@ -1,12 +1,138 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { lookup } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Plugin, defineConfig, loadEnv } from 'vite';
+
+// Dev-server CORS proxy so the browser can fetch documentation pages itself, for the OpenAI-compatible
+// provider and the local page cache. Enable it with PAGE_FETCH_PROXY=/page-proxy?url=
+// Only public hosts are fetched (checked on the address the socket connects to, and on every redirect),
+// so the proxy cannot be used to reach the machine it runs on or its private network.
+const MAX_PROXY_REDIRECTS = 5;
+const MAX_PROXY_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 subnets.
+[['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]
+  .forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+class ProxyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const isBlockedAddress = (address: string): boolean =>
+  BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+const notPublicError = (host: string) => new ProxyError(403, `Refusing to fetch ${host}: not a public address.`);
+
+// dns.lookup that fails when any resolved address is blocked. The agents connect through it, so the
+// address that was checked is the one connected to: a DNS-rebinding host cannot pass the check and
+// then resolve to a private address for the request.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error, '');
+    if (entries.length === 0 || entries.some(entry => isBlockedAddress(entry.address))) {
+      return callback(notPublicError(hostname), '');
+    }
+    if (options.all) return callback(null, entries);
+    callback(null, entries[0].address, entries[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+const requestPublicUrl = (url: URL): Promise<IncomingMessage> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new ProxyError(400, 'Only http(s) URLs can be fetched.'));
+  }
+  // IP literals are connected to without a lookup, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    return Promise.reject(notPublicError(url.hostname));
+  }
+  const isHttps = url.protocol === 'https:';
+  return new Promise((resolve, reject) => {
+    (isHttps ? https : http).get(url, { agent: isHttps ? httpsAgent : httpAgent }, resolve).on('error', reject);
+  });
+};
+
+// Follows redirects by hand so that every hop is checked.
+const fetchPublicUrl = async (target: URL): Promise<IncomingMessage> => {
+  let url = target;
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestPublicUrl(url);
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) return response;
+    response.resume(); // Discard the redirect body
+    if (redirects >= MAX_PROXY_REDIRECTS) throw new ProxyError(502, 'Too many redirects.');
+    url = new URL(location, url);
+  }
+};
+
+const readLimitedBody = async (response: IncomingMessage): Promise<Buffer> => {
+  if (Number(response.headers['content-length']) > MAX_PROXY_RESPONSE_BYTES) {
+    response.destroy();
+    throw new ProxyError(413, 'The page is too large to proxy.');
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_PROXY_RESPONSE_BYTES) {
+      response.destroy();
+      throw new ProxyError(413, 'The page is too large to proxy.');
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+const pageFetchProxy = (): Plugin => ({
+  name: 'page-fetch-proxy',
+  configureServer(server) {
+    server.middlewares.use('/page-proxy', async (req, res) => {
+      const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+      try {
+        if (!target || !URL.canParse(target)) {
+          throw new ProxyError(400, 'Expected an http(s) URL in the "url" parameter.');
+        }
+        const upstream = await fetchPublicUrl(new URL(target));
+        const body = await readLimitedBody(upstream);
+        res.statusCode = upstream.statusCode || 502;
+        res.setHeader('Content-Type', upstream.headers['content-type'] || 'text/plain');
+        res.end(body);
+      } catch (e) {
+        res.statusCode = e instanceof ProxyError ? e.status : 502;
+        res.end(e instanceof ProxyError ? e.message : `Failed to fetch ${target}`);
+      }
+    });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [pageFetchProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_COMPAT_BASE_URL': JSON.stringify(env.OPENAI_COMPAT_BASE_URL),
+        'process.env.OPENAI_COMPAT_API_KEY': JSON.stringify(env.OPENAI_COMPAT_API_KEY),
+        'process.env.OPENAI_COMPAT_MODEL': JSON.stringify(env.OPENAI_COMPAT_MODEL),
+        'process.env.PAGE_FETCH_PROXY': JSON.stringify(env.PAGE_FETCH_PROXY),
+        'process.env.MOCK_MODEL': JSON.stringify(env.MOCK_MODEL),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.MOCK_FAILING_URLS': JSON.stringify(env.MOCK_FAILING_URLS),
+        'process.env.MOCK_ERROR': JSON.stringify(env.MOCK_ERROR)
       },
       resolve: {
         alias: {
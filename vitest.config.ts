@@ -0,0 +1,23 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+// Tests run against the offline mock provider without latency, whatever the local .env contains.
+export default defineConfig(configEnv => mergeConfig(viteConfig(configEnv), {
+  define: {
+    'process.env.API_KEY': 'undefined',
+    'process.env.GEMINI_API_KEY': 'undefined',
+    'process.env.OPENAI_COMPAT_BASE_URL': 'undefined',
+    'process.env.OPENAI_COMPAT_API_KEY': 'undefined',
+    'process.env.OPENAI_COMPAT_MODEL': 'undefined',
+    'process.env.PAGE_FETCH_PROXY': 'undefined',
+    'process.env.MOCK_MODEL': JSON.stringify('true'),
+    'process.env.MOCK_LATENCY_MS': JSON.stringify('0'),
+    'process.env.MOCK_FAILING_URLS': 'undefined',
+    'process.env.MOCK_ERROR': 'undefined',
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./vitest.setup.ts'],
+    restoreMocks: true,
+  },
+}));